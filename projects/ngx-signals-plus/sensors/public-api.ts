@@ -0,0 +1,6 @@
+/* Secondary entry-point public API for sensors */
+
+export type { SensorOptions, SensorTarget } from './src/sensor-options';
+export * from './src/window-sensors';
+export * from './src/element-sensors';
+export * from './src/keyboard-sensors';
@@ -0,0 +1,146 @@
+import { ElementRef, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  injectElementFocus,
+  injectElementHover,
+  injectElementSize,
+  injectMousePosition,
+} from './element-sensors';
+
+describe('element-sensors.ts', () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+  });
+
+  describe('injectMousePosition', () => {
+    it('should follow the position of the mouse over the window', () => {
+      const mousePosition = TestBed.runInInjectionContext(() =>
+        injectMousePosition()
+      );
+
+      expect(mousePosition()).toEqual({ x: 0, y: 0 });
+
+      document.defaultView!.dispatchEvent(
+        new MouseEvent('mousemove', { clientX: 10, clientY: 20 })
+      );
+
+      expect(mousePosition()).toEqual({ x: 10, y: 20 });
+    });
+
+    it('should follow the position of the mouse over the target element', () => {
+      const mousePosition = TestBed.runInInjectionContext(() =>
+        injectMousePosition({ target: element })
+      );
+
+      element.dispatchEvent(
+        new MouseEvent('mousemove', { clientX: 10, clientY: 20 })
+      );
+
+      expect(mousePosition()).toEqual({ x: 10, y: 20 });
+    });
+
+    it('should stop following the mouse once deactivated', () => {
+      const mousePosition = TestBed.runInInjectionContext(() =>
+        injectMousePosition({ target: element })
+      );
+
+      mousePosition.deactivate();
+      element.dispatchEvent(
+        new MouseEvent('mousemove', { clientX: 10, clientY: 20 })
+      );
+
+      expect(mousePosition()).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('injectElementSize', () => {
+    const globals = globalThis as unknown as Record<string, unknown>;
+    let originalResizeObserver: unknown;
+    let resizeCallbacks: (() => void)[];
+
+    beforeEach(() => {
+      originalResizeObserver = globals['ResizeObserver'];
+      resizeCallbacks = [];
+      globals['ResizeObserver'] = class {
+        constructor(private readonly callback: (entries: unknown[]) => void) {}
+
+        observe() {
+          resizeCallbacks.push(() => this.callback([{}]));
+        }
+
+        disconnect() {
+          // the fake observer is not notified anymore
+        }
+      };
+    });
+
+    afterEach(() => {
+      globals['ResizeObserver'] = originalResizeObserver;
+    });
+
+    const mockSize = (width: number, height: number) =>
+      spyOn(element, 'getBoundingClientRect').and.returnValue({
+        width,
+        height,
+      } as DOMRect);
+
+    it('should measure the element initially', () => {
+      mockSize(100, 50);
+
+      const elementSize = TestBed.runInInjectionContext(() =>
+        injectElementSize(element)
+      );
+
+      expect(elementSize()).toEqual({ width: 100, height: 50 });
+    });
+
+    it('should measure the element of the target signal again when its resize is observed', () => {
+      const elementSize = TestBed.runInInjectionContext(() =>
+        injectElementSize(signal(new ElementRef(element)))
+      );
+      mockSize(200, 100);
+
+      resizeCallbacks.forEach((resize) => resize());
+
+      expect(elementSize()).toEqual({ width: 200, height: 100 });
+    });
+  });
+
+  describe('injectElementHover', () => {
+    it('should be true while the mouse is over the element', () => {
+      const hovered = TestBed.runInInjectionContext(() =>
+        injectElementHover(element)
+      );
+
+      expect(hovered()).toBeFalse();
+
+      element.dispatchEvent(new MouseEvent('mouseenter'));
+
+      expect(hovered()).toBeTrue();
+
+      element.dispatchEvent(new MouseEvent('mouseleave'));
+
+      expect(hovered()).toBeFalse();
+    });
+  });
+
+  describe('injectElementFocus', () => {
+    it('should be true while the element or its descendant has the focus', () => {
+      const child = document.createElement('input');
+      element.appendChild(child);
+      const focused = TestBed.runInInjectionContext(() =>
+        injectElementFocus(element)
+      );
+
+      child.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+
+      expect(focused()).toBeTrue();
+
+      child.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+
+      expect(focused()).toBeFalse();
+    });
+  });
+});
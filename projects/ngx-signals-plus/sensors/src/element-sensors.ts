@@ -0,0 +1,108 @@
+import { isSignal, untracked } from '@angular/core';
+import {
+  EventSignal,
+  signalFromEvent,
+  signalFromObserver,
+} from 'ngx-signals-plus';
+import {
+  SensorOptions,
+  SensorTarget,
+  toSignalFromEventOptions,
+} from './sensor-options';
+
+export type MousePosition = {
+  x: number;
+  y: number;
+};
+
+export type ElementSize = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Creates an EventSignal of the position of the mouse relative to the viewport (clientX and clientY),
+ * updated by the mousemove events of the window, or of the target element if it is provided.
+ *
+ * @param options The SensorOptions.
+ * @param options.target The element to track the mouse over. Defaults to the window.
+ * @returns EventSignal<MousePosition>
+ */
+export function injectMousePosition(
+  options?: SensorOptions & { target?: SensorTarget }
+): EventSignal<MousePosition> {
+  const { target, ...sensorOptions } = options ?? {};
+  return signalFromEvent('mousemove', {
+    ...toSignalFromEventOptions(sensorOptions),
+    target: target ?? 'window',
+    resultSelector: (event) => ({ x: event.clientX, y: event.clientY }),
+    initialValue: { x: 0, y: 0 },
+  });
+}
+
+/**
+ * Creates an EventSignal of the size of the target element (the size of its bounding client rect).
+ * The element is measured again whenever its ResizeObserver reports a change of its border box, caused by the window,
+ * the layout, the CSS or the content alike (see `signalFromObserver`).
+ *
+ * @param target The measured element.
+ * @param options The SensorOptions.
+ * @returns EventSignal<ElementSize>
+ */
+export function injectElementSize(
+  target: SensorTarget,
+  options?: SensorOptions
+): EventSignal<ElementSize> {
+  const readSize = (element: Element | undefined): ElementSize => {
+    const rect = element?.getBoundingClientRect();
+    return { width: rect?.width ?? 0, height: rect?.height ?? 0 };
+  };
+  return signalFromObserver('resize', {
+    ...toSignalFromEventOptions(options),
+    target,
+    observerOptions: { box: 'border-box' },
+    resultSelector: (_, element) => readSize(element),
+    initialValue: readSize(
+      isSignal(target) ? untracked(target)?.nativeElement : target
+    ),
+  });
+}
+
+/**
+ * Creates an EventSignal that is true while the mouse is over the target element, updated by its mouseenter and mouseleave events.
+ *
+ * @param target The hovered element.
+ * @param options The SensorOptions.
+ * @returns EventSignal<boolean>
+ */
+export function injectElementHover(
+  target: SensorTarget,
+  options?: SensorOptions
+): EventSignal<boolean> {
+  return signalFromEvent(['mouseenter', 'mouseleave'], {
+    ...toSignalFromEventOptions(options),
+    target,
+    resultSelector: (event) => event.type === 'mouseenter',
+    initialValue: false,
+  });
+}
+
+/**
+ * Creates an EventSignal that is true while the target element or one of its descendants has the focus,
+ * updated by its focusin and focusout events.
+ *
+ * @param target The focused element.
+ * @param options The SensorOptions.
+ * @returns EventSignal<boolean>
+ */
+export function injectElementFocus(
+  target: SensorTarget,
+  options?: SensorOptions
+): EventSignal<boolean> {
+  return signalFromEvent(['focusin', 'focusout'], {
+    ...toSignalFromEventOptions(options),
+    target,
+    resultSelector: (event) => event.type === 'focusin',
+    initialValue: false,
+  });
+}
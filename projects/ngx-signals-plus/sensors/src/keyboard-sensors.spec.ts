@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { injectHotkey } from './keyboard-sensors';
+
+describe('keyboard-sensors.ts', () => {
+  describe('injectHotkey', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    const pressKey = (init: KeyboardEventInit) => {
+      const event = new KeyboardEvent('keydown', {
+        cancelable: true,
+        ...init,
+      });
+      element.dispatchEvent(event);
+      return event;
+    };
+
+    it('should be the last keydown event matching the hotkey', () => {
+      const hotkey = TestBed.runInInjectionContext(() =>
+        injectHotkey('ctrl+k', { target: element })
+      );
+
+      const matchingEvent = pressKey({ key: 'k', ctrlKey: true });
+
+      expect(hotkey()).toBe(matchingEvent);
+
+      pressKey({ key: 'k' });
+      pressKey({ key: 'k', ctrlKey: true, shiftKey: true });
+      pressKey({ key: 'j', ctrlKey: true });
+
+      expect(hotkey()).toBe(matchingEvent);
+    });
+
+    it('should not restore the last match after reset', () => {
+      const hotkey = TestBed.runInInjectionContext(() =>
+        injectHotkey('ctrl+k', { target: element })
+      );
+      pressKey({ key: 'k', ctrlKey: true });
+
+      hotkey.reset();
+      pressKey({ key: 'j' });
+
+      expect(hotkey()).toBeUndefined();
+    });
+
+    it('should match the key case-insensitively and accept the aliases', () => {
+      const hotkey = TestBed.runInInjectionContext(() =>
+        injectHotkey('Shift+Esc', { target: element })
+      );
+
+      const matchingEvent = pressKey({ key: 'Escape', shiftKey: true });
+
+      expect(hotkey()).toBe(matchingEvent);
+    });
+
+    it('should listen to the window by default', () => {
+      const hotkey = TestBed.runInInjectionContext(() =>
+        injectHotkey('meta+p')
+      );
+      const matchingEvent = new KeyboardEvent('keydown', {
+        key: 'p',
+        metaKey: true,
+      });
+
+      document.defaultView!.dispatchEvent(matchingEvent);
+
+      expect(hotkey()).toBe(matchingEvent);
+    });
+
+    it('should prevent the default action of the matching events only if preventDefault is true', () => {
+      TestBed.runInInjectionContext(() =>
+        injectHotkey('ctrl+k', { target: element, preventDefault: true })
+      );
+
+      expect(pressKey({ key: 'k', ctrlKey: true }).defaultPrevented).toBeTrue();
+      expect(pressKey({ key: 'k' }).defaultPrevented).toBeFalse();
+    });
+
+    it('should throw if the key of the hotkey is missing', () => {
+      expect(() =>
+        TestBed.runInInjectionContext(() => injectHotkey('ctrl+'))
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { EventSignal, signalFromEvent } from 'ngx-signals-plus';
+import {
+  SensorOptions,
+  SensorTarget,
+  toSignalFromEventOptions,
+} from './sensor-options';
+
+type Hotkey = {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  space: ' ',
+  esc: 'escape',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+};
+
+/**
+ * Creates an EventSignal of the last keydown event matching the hotkey, every other keydown event is ignored.
+ * Since every press is a new event, an effect reading the signal runs on every press of the hotkey.
+ *
+ * The hotkey is a key combined with modifiers by '+', e.g. 'ctrl+k', 'shift+alt+p' or 'meta+enter'. The modifiers are
+ * ctrl (control), shift, alt (option) and meta (cmd), they have to match exactly. The key is compared to the key
+ * of the event case-insensitively, 'space', 'esc' and the arrow directions ('up', 'down', 'left', 'right') are accepted as well.
+ *
+ * @param hotkey The key combination to listen to.
+ * @param options The SensorOptions.
+ * @param options.target The element to listen to. Defaults to the window.
+ * @param options.preventDefault When true, the default action of the matching keydown events is prevented (e.g. the search of the browser).
+ * @returns EventSignal<KeyboardEvent | undefined>
+ */
+export function injectHotkey(
+  hotkey: string,
+  options?: SensorOptions & { target?: SensorTarget; preventDefault?: boolean }
+): EventSignal<KeyboardEvent | undefined> {
+  const { target, preventDefault, ...sensorOptions } = options ?? {};
+  const parsedHotkey = parseHotkey(hotkey);
+  let lastMatch: KeyboardEvent | undefined = undefined;
+  const eventSignal = signalFromEvent('keydown', {
+    ...toSignalFromEventOptions(sensorOptions),
+    target: target ?? 'window',
+    tap: (event) => {
+      if (preventDefault === true && matchesHotkey(event, parsedHotkey)) {
+        event.preventDefault();
+      }
+    },
+    // the signal keeps the last matching event for the other keys, it is not changed by them
+    resultSelector: (event) =>
+      matchesHotkey(event, parsedHotkey) ? (lastMatch = event) : lastMatch,
+  });
+  // the last match is forgotten as well, so the next key does not restore it
+  const reset = eventSignal.reset;
+  return Object.assign(eventSignal, {
+    reset: () => {
+      lastMatch = undefined;
+      reset();
+    },
+  });
+}
+
+function parseHotkey(hotkey: string): Hotkey {
+  const parts = hotkey
+    .toLowerCase()
+    .split('+')
+    .map((part) => part.trim());
+  const key = parts.pop();
+  if (key === undefined || key === '') {
+    throw new Error(`Invalid hotkey: '${hotkey}'. The key is missing.`);
+  }
+  return {
+    key: KEY_ALIASES[key] ?? key,
+    ctrl: parts.includes('ctrl') || parts.includes('control'),
+    shift: parts.includes('shift'),
+    alt: parts.includes('alt') || parts.includes('option'),
+    meta: parts.includes('meta') || parts.includes('cmd'),
+  };
+}
+
+function matchesHotkey(event: KeyboardEvent, hotkey: Hotkey): boolean {
+  return (
+    event.key?.toLowerCase() === hotkey.key &&
+    event.ctrlKey === hotkey.ctrl &&
+    event.shiftKey === hotkey.shift &&
+    event.altKey === hotkey.alt &&
+    event.metaKey === hotkey.meta
+  );
+}
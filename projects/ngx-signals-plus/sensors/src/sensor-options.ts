@@ -0,0 +1,27 @@
+import { ElementRef, inject, Injector, Signal } from '@angular/core';
+import { SignalFromEventOptions } from 'ngx-signals-plus';
+
+/**
+ * The options shared by every sensor.
+ * The sensors are activated immediately unless activate is false, in that case an activator can be attached to the returned
+ * EventSignal later. Every sensor can be paused by deactivate and is cleaned up when the DestroyRef of the injector is destroyed.
+ */
+export type SensorOptions = Pick<
+  SignalFromEventOptions<Event>,
+  | 'injector'
+  | 'activate'
+  | 'throttle'
+  | 'debounce'
+  | 'schedule'
+  | 'runOutsideAngular'
+>;
+
+export type SensorTarget = Element | Signal<ElementRef<Element> | undefined>;
+
+export function toSignalFromEventOptions(options?: SensorOptions) {
+  return {
+    ...options,
+    injector: options?.injector ?? inject(Injector),
+    activate: options?.activate ?? true,
+  };
+}
@@ -0,0 +1,192 @@
+import { ElementRef, PLATFORM_ID, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  injectMediaQuery,
+  injectOnlineStatus,
+  injectPageVisibility,
+  injectScrollPosition,
+  injectWindowSize,
+} from './window-sensors';
+
+describe('window-sensors.ts', () => {
+  let view: Window & typeof globalThis;
+
+  beforeEach(() => {
+    view = document.defaultView!;
+  });
+
+  describe('injectWindowSize', () => {
+    it('should read the inner size of the window initially and on resize', () => {
+      const windowSize = TestBed.runInInjectionContext(() =>
+        injectWindowSize()
+      );
+      const expectedSize = {
+        width: view.innerWidth,
+        height: view.innerHeight,
+      };
+
+      expect(windowSize()).toEqual(expectedSize);
+
+      view.dispatchEvent(new Event('resize'));
+
+      expect(windowSize()).toEqual(expectedSize);
+    });
+  });
+
+  describe('injectScrollPosition', () => {
+    it('should read the scroll position of the target element on scroll', () => {
+      const element = document.createElement('div');
+      const scrollPosition = TestBed.runInInjectionContext(() =>
+        injectScrollPosition({ target: element })
+      );
+
+      expect(scrollPosition()).toEqual({ x: 0, y: 0 });
+
+      Object.defineProperty(element, 'scrollTop', { value: 100 });
+      element.dispatchEvent(new Event('scroll'));
+
+      expect(scrollPosition()).toEqual({ x: 0, y: 100 });
+    });
+
+    it('should not read the scroll position of the window initially for a target signal without an element', () => {
+      const scrollY = Object.getOwnPropertyDescriptor(view, 'scrollY');
+      Object.defineProperty(view, 'scrollY', {
+        configurable: true,
+        value: 50,
+      });
+
+      try {
+        const scrollPosition = TestBed.runInInjectionContext(() =>
+          injectScrollPosition({
+            target: signal<ElementRef<Element> | undefined>(undefined),
+          })
+        );
+
+        expect(scrollPosition()).toEqual({ x: 0, y: 0 });
+      } finally {
+        if (scrollY !== undefined) {
+          Object.defineProperty(view, 'scrollY', scrollY);
+        } else {
+          delete (view as { scrollY?: number }).scrollY;
+        }
+      }
+    });
+
+    it('should read the scroll position of the window by default', () => {
+      const scrollPosition = TestBed.runInInjectionContext(() =>
+        injectScrollPosition()
+      );
+
+      view.dispatchEvent(new Event('scroll'));
+
+      expect(scrollPosition()).toEqual({ x: view.scrollX, y: view.scrollY });
+    });
+
+    it('should not update the scroll position while it is deactivated', () => {
+      const element = document.createElement('div');
+      const scrollPosition = TestBed.runInInjectionContext(() =>
+        injectScrollPosition({ target: element })
+      );
+
+      scrollPosition.deactivate();
+      Object.defineProperty(element, 'scrollTop', { value: 100 });
+      element.dispatchEvent(new Event('scroll'));
+
+      expect(scrollPosition()).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('injectPageVisibility', () => {
+    afterEach(() => {
+      delete (document as { visibilityState?: unknown }).visibilityState;
+    });
+
+    it('should be false once the page is hidden', () => {
+      const pageVisibility = TestBed.runInInjectionContext(() =>
+        injectPageVisibility()
+      );
+
+      Object.defineProperty(document, 'visibilityState', {
+        configurable: true,
+        get: () => 'hidden',
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(pageVisibility()).toBeFalse();
+    });
+  });
+
+  describe('injectOnlineStatus', () => {
+    it('should follow the online and offline events of the window', () => {
+      const onlineStatus = TestBed.runInInjectionContext(() =>
+        injectOnlineStatus()
+      );
+
+      view.dispatchEvent(new Event('offline'));
+
+      expect(onlineStatus()).toBeFalse();
+
+      view.dispatchEvent(new Event('online'));
+
+      expect(onlineStatus()).toBeTrue();
+    });
+
+    it('should not be activated if activate is false', () => {
+      const onlineStatus = TestBed.runInInjectionContext(() =>
+        injectOnlineStatus({ activate: false })
+      );
+
+      view.dispatchEvent(new Event('offline'));
+
+      expect(onlineStatus()).toBe(view.navigator.onLine);
+    });
+  });
+
+  describe('injectMediaQuery', () => {
+    let originalMatchMedia: typeof view.matchMedia;
+    let mediaQueryList: EventTarget & { matches: boolean };
+
+    beforeEach(() => {
+      originalMatchMedia = view.matchMedia;
+      mediaQueryList = Object.assign(new EventTarget(), { matches: true });
+      view.matchMedia = jasmine
+        .createSpy('matchMedia')
+        .and.returnValue(mediaQueryList);
+    });
+
+    afterEach(() => {
+      view.matchMedia = originalMatchMedia;
+    });
+
+    it('should follow the matches of the media query', () => {
+      const prefersDark = TestBed.runInInjectionContext(() =>
+        injectMediaQuery('(prefers-color-scheme: dark)')
+      );
+
+      expect(view.matchMedia).toHaveBeenCalledWith(
+        '(prefers-color-scheme: dark)'
+      );
+      expect(prefersDark()).toBeTrue();
+
+      mediaQueryList.dispatchEvent(
+        Object.assign(new Event('change'), { matches: false })
+      );
+
+      expect(prefersDark()).toBeFalse();
+    });
+
+    it('should not match on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      const prefersDark = TestBed.runInInjectionContext(() =>
+        injectMediaQuery('(prefers-color-scheme: dark)')
+      );
+
+      expect(view.matchMedia).not.toHaveBeenCalled();
+      expect(prefersDark()).toBeFalse();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  ElementRef,
+  isSignal,
+  PLATFORM_ID,
+  signal,
+  untracked,
+} from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { EventSignal, signalFromEvent } from 'ngx-signals-plus';
+import {
+  SensorOptions,
+  SensorTarget,
+  toSignalFromEventOptions,
+} from './sensor-options';
+
+export type WindowSize = {
+  width: number;
+  height: number;
+};
+
+export type ScrollPosition = {
+  x: number;
+  y: number;
+};
+
+/**
+ * Creates an EventSignal of the inner size of the window, updated by the resize events of the window.
+ * On the server the size is 0.
+ *
+ * @param options The SensorOptions.
+ * @returns EventSignal<WindowSize>
+ */
+export function injectWindowSize(
+  options?: SensorOptions
+): EventSignal<WindowSize> {
+  const eventOptions = toSignalFromEventOptions(options);
+  const window = eventOptions.injector.get(DOCUMENT).defaultView;
+  const readSize = (): WindowSize => ({
+    width: window?.innerWidth ?? 0,
+    height: window?.innerHeight ?? 0,
+  });
+  return signalFromEvent('resize', {
+    ...eventOptions,
+    target: 'window',
+    resultSelector: readSize,
+    initialValue: readSize(),
+  });
+}
+
+/**
+ * Creates an EventSignal of the scroll position of the window, or of the target element if it is provided.
+ *
+ * @param options The SensorOptions.
+ * @param options.target The scrolled element. Defaults to the window.
+ * @returns EventSignal<ScrollPosition>
+ */
+export function injectScrollPosition(
+  options?: SensorOptions & { target?: SensorTarget }
+): EventSignal<ScrollPosition> {
+  const { target, ...sensorOptions } = options ?? {};
+  const eventOptions = toSignalFromEventOptions(sensorOptions);
+  const window = eventOptions.injector.get(DOCUMENT).defaultView;
+  const readPosition = (element: Element | undefined): ScrollPosition =>
+    element !== undefined
+      ? { x: element.scrollLeft, y: element.scrollTop }
+      : { x: window?.scrollX ?? 0, y: window?.scrollY ?? 0 };
+  // a target signal without an element yet (e.g. a viewChild at construction) is not scrolled, it is not the window
+  const readInitialPosition = (): ScrollPosition => {
+    if (target === undefined) {
+      return readPosition(undefined);
+    }
+    const element = isSignal(target)
+      ? untracked(target)?.nativeElement
+      : target;
+    return element !== undefined ? readPosition(element) : { x: 0, y: 0 };
+  };
+  return signalFromEvent('scroll', {
+    ...eventOptions,
+    target: target ?? 'window',
+    resultSelector: (_, scrolled) =>
+      readPosition(scrolled === window ? undefined : (scrolled as Element)),
+    initialValue: readInitialPosition(),
+  });
+}
+
+/**
+ * Creates an EventSignal that is true while the page is visible, updated by the visibilitychange events of the document.
+ * On the server the page is visible.
+ *
+ * @param options The SensorOptions.
+ * @returns EventSignal<boolean>
+ */
+export function injectPageVisibility(
+  options?: SensorOptions
+): EventSignal<boolean> {
+  const eventOptions = toSignalFromEventOptions(options);
+  const document = eventOptions.injector.get(DOCUMENT);
+  const isVisible = () => document.visibilityState !== 'hidden';
+  return signalFromEvent('visibilitychange', {
+    ...eventOptions,
+    target: 'document',
+    resultSelector: isVisible,
+    initialValue: isVisible(),
+  });
+}
+
+/**
+ * Creates an EventSignal that is true while the browser is online, updated by the online and offline events of the window.
+ * On the server it is online.
+ *
+ * @param options The SensorOptions.
+ * @returns EventSignal<boolean>
+ */
+export function injectOnlineStatus(
+  options?: SensorOptions
+): EventSignal<boolean> {
+  const eventOptions = toSignalFromEventOptions(options);
+  const window = eventOptions.injector.get(DOCUMENT).defaultView;
+  return signalFromEvent(['online', 'offline'], {
+    ...eventOptions,
+    target: 'window',
+    resultSelector: (event) => event.type === 'online',
+    initialValue: window?.navigator?.onLine ?? true,
+  });
+}
+
+/**
+ * Creates an EventSignal that is true while the media query matches, updated by the change events of the MediaQueryList.
+ * On the server, or where matchMedia is not available, it never matches.
+ *
+ * @param query The media query, e.g. '(prefers-color-scheme: dark)'.
+ * @param options The SensorOptions.
+ * @returns EventSignal<boolean>
+ */
+export function injectMediaQuery(
+  query: string,
+  options?: SensorOptions
+): EventSignal<boolean> {
+  const eventOptions = toSignalFromEventOptions(options);
+  const window = eventOptions.injector.get(DOCUMENT).defaultView;
+  const mediaQueryList = isPlatformBrowser(
+    eventOptions.injector.get(PLATFORM_ID)
+  )
+    ? window?.matchMedia?.(query)
+    : undefined;
+  return signalFromEvent<MediaQueryListEvent, boolean>('change', {
+    ...eventOptions,
+    // without a MediaQueryList the undefined target signal prevents the fallback to the ElementRef of the component
+    target:
+      mediaQueryList ??
+      signal<ElementRef<MediaQueryList> | undefined>(undefined),
+    resultSelector: (event) => event.matches,
+    initialValue: mediaQueryList?.matches ?? false,
+  });
+}
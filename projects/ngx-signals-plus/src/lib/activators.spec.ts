@@ -0,0 +1,118 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, isObservable, Observable, Subject } from 'rxjs';
+import { allActivators, anyActivators } from './activators';
+import { signalFromEvent } from './event-signal';
+
+describe('activators.ts', () => {
+  describe('allActivators', () => {
+    it('should combine signals into a signal that is true while every signal is true', () => {
+      const first = signal(true);
+      const second = signal(false);
+      const activator = allActivators([first, second]);
+
+      expect(activator()).toBeFalse();
+
+      second.set(true);
+
+      expect(activator()).toBeTrue();
+    });
+
+    it('should be true for an empty list', () => {
+      expect(allActivators([])()).toBeTrue();
+    });
+
+    it('should combine signals and observables into an observable', () => {
+      const first = signal(true);
+      const second = new BehaviorSubject(true);
+      const activator = TestBed.runInInjectionContext(() =>
+        allActivators([first, second])
+      ) as Observable<boolean>;
+      const values: boolean[] = [];
+
+      expect(isObservable(activator)).toBeTrue();
+
+      activator.subscribe((value) => values.push(value));
+      second.next(false);
+      second.next(false);
+      first.set(false);
+      TestBed.flushEffects();
+      second.next(true);
+
+      expect(values).toEqual([true, false]);
+    });
+
+    it('should not emit until every observable has emitted', () => {
+      const first = new BehaviorSubject(true);
+      const second = new Subject<boolean>();
+      const values: boolean[] = [];
+
+      allActivators([first, second]).subscribe((value) => values.push(value));
+
+      expect(values).toEqual([]);
+
+      second.next(true);
+
+      expect(values).toEqual([true]);
+    });
+  });
+
+  describe('anyActivators', () => {
+    it('should combine signals into a signal that is true while at least one signal is true', () => {
+      const first = signal(false);
+      const second = signal(false);
+      const activator = anyActivators([first, second]);
+
+      expect(activator()).toBeFalse();
+
+      first.set(true);
+
+      expect(activator()).toBeTrue();
+    });
+
+    it('should be false for an empty list', () => {
+      expect(anyActivators([])()).toBeFalse();
+    });
+
+    it('should combine observables without an injection context', () => {
+      const first = new BehaviorSubject(false);
+      const second = new BehaviorSubject(false);
+      const values: boolean[] = [];
+
+      anyActivators([first, second]).subscribe((value) => values.push(value));
+      second.next(true);
+      first.next(true);
+
+      expect(values).toEqual([false, true]);
+    });
+
+    it('should be true as soon as one of the observables is true', () => {
+      const first = new BehaviorSubject(true);
+      const second = new Subject<boolean>();
+      const values: boolean[] = [];
+
+      anyActivators([first, second]).subscribe((value) => values.push(value));
+
+      expect(values).toEqual([true]);
+    });
+  });
+
+  it('should control the event listeners of an EventSignal', () => {
+    const element = document.createElement('div');
+    const featureEnabled = signal(true);
+    const userOptedIn = signal(false);
+    const eventSignal = TestBed.runInInjectionContext(() =>
+      signalFromEvent('click', { target: element })
+    );
+
+    eventSignal.attachActivator(allActivators([featureEnabled, userOptedIn]));
+    TestBed.flushEffects();
+
+    expect(eventSignal.isListening()).toBeFalse();
+
+    userOptedIn.set(true);
+    TestBed.flushEffects();
+
+    expect(eventSignal.isListening()).toBeTrue();
+  });
+});
@@ -0,0 +1,100 @@
+import { computed, inject, Injector, isSignal, Signal } from '@angular/core';
+import { ToObservableOptions } from '@angular/core/rxjs-interop';
+import {
+  combineLatest,
+  distinctUntilChanged,
+  map,
+  Observable,
+  startWith,
+} from 'rxjs';
+import { toBehaviorObservable } from './to-behavior-observable';
+
+/**
+ * Combines activators of EventSignals into one that is true while every activator is true.
+ * The combination of signals is a computed signal, otherwise it is an observable that emits once every activator has emitted,
+ * so an observable that has not emitted yet keeps the EventSignal deactivated.
+ *
+ * @param activators The activators to combine. The combination of an empty list is true.
+ * @param options The signals are converted to observables with toBehaviorObservable if an observable is combined as well, so it must
+ * be called in an injection context unless an injector is provided via options.
+ * @returns Signal<boolean> | Observable<boolean>
+ */
+export function allActivators(
+  activators: readonly Signal<boolean>[]
+): Signal<boolean>;
+export function allActivators(
+  activators: readonly Observable<boolean>[]
+): Observable<boolean>;
+export function allActivators(
+  activators: readonly (Signal<boolean> | Observable<boolean>)[],
+  options?: ToObservableOptions
+): Signal<boolean> | Observable<boolean>;
+
+export function allActivators(
+  activators: readonly (Signal<boolean> | Observable<boolean>)[],
+  options?: ToObservableOptions
+): Signal<boolean> | Observable<boolean> {
+  return combineActivators(
+    activators,
+    (values) => values.every((value) => value),
+    false,
+    options
+  );
+}
+
+/**
+ * Combines activators of EventSignals into one that is true while at least one of the activators is true.
+ * The combination of signals is a computed signal, otherwise it is an observable. The observables are false until they emit,
+ * so the combination is true as soon as one of the activators is true.
+ *
+ * @param activators The activators to combine. The combination of an empty list is false.
+ * @param options The signals are converted to observables with toBehaviorObservable if an observable is combined as well, so it must
+ * be called in an injection context unless an injector is provided via options.
+ * @returns Signal<boolean> | Observable<boolean>
+ */
+export function anyActivators(
+  activators: readonly Signal<boolean>[]
+): Signal<boolean>;
+export function anyActivators(
+  activators: readonly Observable<boolean>[]
+): Observable<boolean>;
+export function anyActivators(
+  activators: readonly (Signal<boolean> | Observable<boolean>)[],
+  options?: ToObservableOptions
+): Signal<boolean> | Observable<boolean>;
+
+export function anyActivators(
+  activators: readonly (Signal<boolean> | Observable<boolean>)[],
+  options?: ToObservableOptions
+): Signal<boolean> | Observable<boolean> {
+  return combineActivators(
+    activators,
+    (values) => values.some((value) => value),
+    true,
+    options
+  );
+}
+
+function combineActivators(
+  activators: readonly (Signal<boolean> | Observable<boolean>)[],
+  combine: (values: boolean[]) => boolean,
+  seedObservables: boolean,
+  options?: ToObservableOptions
+): Signal<boolean> | Observable<boolean> {
+  if (activators.every((activator) => isSignal(activator))) {
+    const signals = activators as readonly Signal<boolean>[];
+    return computed(() => combine(signals.map((activator) => activator())));
+  }
+  const injector = activators.some((activator) => isSignal(activator))
+    ? options?.injector ?? inject(Injector)
+    : undefined;
+  return combineLatest(
+    activators.map((activator) =>
+      isSignal(activator)
+        ? toBehaviorObservable(activator, { injector })
+        : seedObservables
+        ? activator.pipe(startWith(false))
+        : activator
+    )
+  ).pipe(map(combine), distinctUntilChanged());
+}
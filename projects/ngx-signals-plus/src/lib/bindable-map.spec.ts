@@ -0,0 +1,139 @@
+import { DestroyRef, signal } from '@angular/core';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { bindableMap } from './bindable-map';
+
+describe('bindable-map.ts', () => {
+  describe('bindableMap', () => {
+    it('should update the signal of the key from its own source', () => {
+      const firstSource = new BehaviorSubject('firstValue');
+      const secondSource = new BehaviorSubject('secondValue');
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+
+      map.bindKey('first', firstSource);
+      map.bindKey('second', secondSource);
+
+      expect(map.get('first')()).toBe('firstValue');
+      expect(map.get('second')()).toBe('secondValue');
+
+      firstSource.next('anotherValue');
+
+      expect(map.get('first')()).toBe('anotherValue');
+      expect(map.get('second')()).toBe('secondValue');
+    });
+
+    it('should return undefined for a key that is not bound and update it once bound', () => {
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+      const value = map.get('key');
+
+      expect(value()).toBeUndefined();
+
+      map.bindKey('key', new BehaviorSubject('newValue'));
+
+      expect(value()).toBe('newValue');
+    });
+
+    it('should bind a key to a signal and map the values of the source', fakeAsync(() => {
+      const source = signal(1);
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+
+      map.bindKey('key', source, { map: (value) => `${value}` });
+      tick();
+
+      expect(map.get('key')()).toBe('1');
+    }));
+
+    it('should expose the bound keys as a signal', () => {
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<number, string>()
+      );
+
+      map.bindKey(1, new Subject<string>());
+      map.bindKey(2, new Subject<string>());
+
+      expect(map.keys()).toEqual([1, 2]);
+    });
+
+    it('should replace the source of a key that is bound again', () => {
+      const firstSource = new BehaviorSubject('firstValue');
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>({ onUnbound })
+      );
+      map.bindKey('key', firstSource);
+
+      map.bindKey('key', new BehaviorSubject('secondValue'));
+
+      expect(firstSource.observed).toBeFalse();
+      expect(map.get('key')()).toBe('secondValue');
+      expect(map.keys()).toEqual(['key']);
+      expect(onUnbound).not.toHaveBeenCalled();
+    });
+
+    it('should keep the last value and the key when the key is unbound', () => {
+      const source = new BehaviorSubject('newValue');
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+      map.bindKey('key', source);
+
+      map.unbindKey('key');
+
+      expect(source.observed).toBeFalse();
+      expect(map.get('key')()).toBe('newValue');
+      expect(map.keys()).toEqual(['key']);
+    });
+
+    it('should throw if a key that was never bound is unbound', () => {
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+
+      expect(() => map.unbindKey('key')).toThrow();
+    });
+
+    it('should unbind the source of a deleted key and remove the key', () => {
+      const source = new BehaviorSubject('newValue');
+      const map = TestBed.runInInjectionContext(() =>
+        bindableMap<string, string>()
+      );
+      const value = map.get('key');
+      map.bindKey('key', source);
+
+      map.delete('key');
+
+      expect(source.observed).toBeFalse();
+      expect(value()).toBeUndefined();
+      expect(map.keys()).toEqual([]);
+    });
+
+    it('should stop updating every key if the DestroyRef onDestroy callback was called', () => {
+      const destroyRef = TestBed.inject(DestroyRef);
+      const onDestroyHooks: (() => void)[] = [];
+      spyOn(destroyRef, 'onDestroy').and.callFake((fn) => {
+        onDestroyHooks.push(fn);
+        return () => fn;
+      });
+      const firstSource = new BehaviorSubject('firstValue');
+      const secondSource = new BehaviorSubject('secondValue');
+      const map = bindableMap<string, string>({ destroyRef });
+      map.bindKey('first', firstSource);
+      map.bindKey('second', secondSource);
+
+      onDestroyHooks.forEach((destroy) => destroy());
+
+      expect(firstSource.observed).toBeFalse();
+      expect(secondSource.observed).toBeFalse();
+    });
+
+    it('should throw if it is created outside of injection context without cleanup options', () => {
+      expect(() => bindableMap<string, string>()).toThrow();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  Injector,
+  Signal,
+  computed,
+  inject,
+  signal,
+  untracked,
+} from '@angular/core';
+import {
+  BindableOptions,
+  BindableSignal,
+  BindableSource,
+  BindToOptions,
+  bindable,
+} from './bindable-signal';
+
+export type BindableMap<K, V> = {
+  get: (key: K) => Signal<V | undefined>;
+  bindKey: {
+    (key: K, source: BindableSource<V>, options?: BindToOptions<V, V>): void;
+    <S>(
+      key: K,
+      source: BindableSource<S>,
+      options: BindToOptions<S, V> & { map: (value: S) => V }
+    ): void;
+  };
+  unbindKey: (key: K) => void;
+  delete: (key: K) => void;
+  keys: Signal<K[]>;
+};
+
+/**
+ * Factory method to create a BindableMap, a collection of BindableSignals identified by their keys.
+ * Every key is bound to its own source by bindKey, the entry is created by the first call. Binding a key again switches it to the new source by rebind, it is not unbound in between.
+ * The get method returns a signal of the value of the key, it is undefined until the key is bound and its source emitted.
+ *
+ * The entries are created by the bindable() factory with the given options, so the same cleanup rules apply to every binding.
+ * Deleting a key unbinds its source and removes it from the keys signal.
+ *
+ * @param options The options of bindable() applied to every entry of the map.
+ *                It has to be called in injection context unless the Injector or the DestroyRef is provided or manualCleanup is true.
+ * @returns BindableMap<K, V> A map of signals bound per key.
+ */
+export function bindableMap<K, V>(
+  options?: BindableOptions<V>
+): BindableMap<K, V> {
+  // the entries are created later, outside of the injection context
+  const entryOptions =
+    options?.destroyRef === undefined && options?.manualCleanup !== true
+      ? { ...options, injector: options?.injector ?? inject(Injector) }
+      : options;
+  const entries = signal(new Map<K, BindableSignal<V>>());
+  const keys = computed(() => [...entries().keys()]);
+
+  const get = (key: K): Signal<V | undefined> =>
+    computed(() => entries().get(key)?.());
+
+  const bindKey = <S>(
+    key: K,
+    source: BindableSource<S>,
+    bindToOptions?: BindToOptions<S, V>
+  ): void => {
+    // without the map option S is V, ensured by the overloads of bindKey
+    const entryBindToOptions = bindToOptions as BindToOptions<S, V> & {
+      map: (value: S) => V;
+    };
+    const existingEntry = untracked(entries).get(key);
+    if (existingEntry !== undefined) {
+      existingEntry.rebind(source, entryBindToOptions);
+      return;
+    }
+    // the value is undefined until the source emits, get() is typed accordingly
+    const entry = bindable<V>(undefined as V, entryOptions);
+    entries.update((current) => new Map(current).set(key, entry));
+    entry.bindTo(source, entryBindToOptions);
+  };
+
+  const unbindKey = (key: K): void => {
+    const entry = untracked(entries).get(key);
+    if (entry === undefined) {
+      throw new Error(
+        'UnbindKey was called with a key that was never bound by bindKey.'
+      );
+    }
+    entry.unbind();
+  };
+
+  const deleteKey = (key: K): void => {
+    const entry = untracked(entries).get(key);
+    if (entry === undefined) {
+      return;
+    }
+    if (untracked(entry.isBound)) {
+      entry.unbind();
+    }
+    entries.update((current) => {
+      const next = new Map(current);
+      next.delete(key);
+      return next;
+    });
+  };
+
+  return {
+    get,
+    bindKey,
+    unbindKey,
+    delete: deleteKey,
+    keys,
+  };
+}
@@ -1,6 +1,26 @@
-import { DestroyRef, Injector, signal } from '@angular/core';
-import { TestBed, fakeAsync, tick } from '@angular/core/testing';
-import { BehaviorSubject, Subject, take, takeUntil } from 'rxjs';
+import {
+  DestroyRef,
+  ErrorHandler,
+  Injector,
+  computed,
+  effect,
+  signal,
+} from '@angular/core';
+import {
+  TestBed,
+  fakeAsync,
+  flushMicrotasks,
+  tick,
+} from '@angular/core/testing';
+import {
+  BehaviorSubject,
+  Subject,
+  defer,
+  of,
+  take,
+  takeUntil,
+  throwError,
+} from 'rxjs';
 import { bindable } from './bindable-signal';
 
 describe('bindable-signal.ts', () => {
@@ -128,6 +148,28 @@ describe('bindable-signal.ts', () => {
       expect(bindableSignal()).toBe(newValue);
     });
 
+    it('should not handle the destroy of the DestroyRef as the completion of the source', () => {
+      const destroyRef = TestBed.inject(DestroyRef);
+      const onDestroyHooks: (() => void)[] = [];
+      collectMockDestroyRefCallbacks(destroyRef, onDestroyHooks);
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        destroyRef,
+        unbindOnComplete: true,
+        writesWhileBound: 'queue-until-unbind',
+        onUnbound,
+      });
+      bindableSignal.bindTo(new BehaviorSubject('newValue'));
+      bindableSignal.set('queuedValue');
+
+      onDestroyHooks.forEach((destroy) => destroy());
+
+      expect(onUnbound).not.toHaveBeenCalled();
+      expect(bindableSignal()).toBe('newValue');
+      expect(bindableSignal.status()).toBe('active');
+      expect(bindableSignal.isBound()).toBeTrue();
+    });
+
     it('should stop updating the bindable signal from an observable if the injected DestroyRef onDestroy callback was called', () => {
       const injector = TestBed.inject(Injector);
       const destroyRef = TestBed.inject(DestroyRef);
@@ -362,6 +404,103 @@ describe('bindable-signal.ts', () => {
       expect(bindableSignal).toBeTruthy();
     });
 
+    it('should update the bindable signal when the bound promise resolves', fakeAsync(() => {
+      const newValue = 'newValue';
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(Promise.resolve(newValue));
+
+      expect(bindableSignal()).toBe('initialValue');
+
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe(newValue);
+    }));
+
+    it('should ignore the promise resolution if unbind() was called before it resolved', fakeAsync(() => {
+      let resolve: (value: string) => void = () => undefined;
+      const promise = new Promise<string>((res) => (resolve = res));
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(promise);
+      bindableSignal.unbind();
+      resolve('newValue');
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe('initialValue');
+    }));
+
+    it('should update the bindable signal from a PromiseLike source', fakeAsync(() => {
+      const newValue = 'newValue';
+      const promiseLike: PromiseLike<string> = {
+        then: (onfulfilled) => Promise.resolve(newValue).then(onfulfilled),
+      };
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(promiseLike);
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe(newValue);
+    }));
+
+    it('should update the bindable signal with every value of the bound async iterable', fakeAsync(() => {
+      const values = new Subject<string>();
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(toAsyncIterable(values));
+      flushMicrotasks();
+
+      values.next('first');
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe('first');
+
+      values.next('second');
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe('second');
+    }));
+
+    it('should call return() on the async iterator if unbind() was called while waiting for the next value', fakeAsync(() => {
+      const values = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(toAsyncIterable(values));
+      flushMicrotasks();
+
+      expect(values.observed).toBeTrue();
+
+      bindableSignal.unbind();
+      flushMicrotasks();
+
+      expect(values.observed).toBeFalse();
+    }));
+
+    it('should stop updating the bindable signal from an async iterable if the DestroyRef onDestroy callback was called', fakeAsync(() => {
+      const destroyRef = TestBed.inject(DestroyRef);
+      const onDestroyHooks: (() => void)[] = [];
+      collectMockDestroyRefCallbacks(destroyRef, onDestroyHooks);
+      const values = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { destroyRef });
+
+      bindableSignal.bindTo(toAsyncIterable(values));
+      flushMicrotasks();
+      values.next('newValue');
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe('newValue');
+
+      onDestroyHooks.forEach((destroy) => destroy());
+      values.next('anotherValue');
+      flushMicrotasks();
+
+      expect(bindableSignal()).toBe('newValue');
+    }));
+
     it('should not throw if the source observable termination was called after unbind()', () => {
       const newValue = 'newValue';
       const updaterSource = new BehaviorSubject(newValue);
@@ -379,8 +518,1021 @@ describe('bindable-signal.ts', () => {
       expect(bindableSignal).toBeTruthy();
     });
   });
+
+  describe('status tracking', () => {
+    it('should be unbound before bindTo was called', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      expect(bindableSignal.status()).toBe('unbound');
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(bindableSignal.hasValue()).toBeFalse();
+      expect(bindableSignal.error()).toBeUndefined();
+    });
+
+    it('should be loading until the first value of the bound observable arrives', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource);
+
+      expect(bindableSignal.status()).toBe('loading');
+      expect(bindableSignal.isBound()).toBeTrue();
+      expect(bindableSignal.hasValue()).toBeFalse();
+
+      updaterSource.next('newValue');
+
+      expect(bindableSignal.status()).toBe('active');
+      expect(bindableSignal.hasValue()).toBeTrue();
+    });
+
+    it('should store the error of the bound observable instead of throwing it', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+      const sourceError = new Error('source error');
+
+      bindableSignal.bindTo(updaterSource);
+      updaterSource.next('newValue');
+      updaterSource.error(sourceError);
+
+      expect(bindableSignal.status()).toBe('error');
+      expect(bindableSignal.error()).toBe(sourceError);
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should be complete if the bound observable completed', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource);
+      updaterSource.next('newValue');
+      updaterSource.complete();
+
+      expect(bindableSignal.status()).toBe('complete');
+      expect(bindableSignal.hasValue()).toBeTrue();
+    });
+
+    it('should reset the status after unbind() and bindTo() was called again', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource);
+      updaterSource.error(new Error('source error'));
+      bindableSignal.unbind();
+
+      expect(bindableSignal.status()).toBe('unbound');
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(bindableSignal.error()).toBeUndefined();
+
+      bindableSignal.bindTo(new Subject<string>());
+
+      expect(bindableSignal.status()).toBe('loading');
+      expect(bindableSignal.hasValue()).toBeFalse();
+    });
+
+    it('should allow unbinding from an effect', () => {
+      const handleError = spyOn(TestBed.inject(ErrorHandler), 'handleError');
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onUnbound,
+      });
+      bindableSignal.bindTo(new BehaviorSubject('newValue'));
+      TestBed.runInInjectionContext(() =>
+        effect(() => bindableSignal.unbind())
+      );
+      TestBed.flushEffects();
+
+      expect(handleError).not.toHaveBeenCalled();
+      expect(bindableSignal.status()).toBe('unbound');
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(bindableSignal.hasValue()).toBeFalse();
+      expect(onUnbound).toHaveBeenCalledOnceWith('manual');
+    });
+
+    it('should be active after the updater effect of the bound signal run', fakeAsync(() => {
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(signal('newValue'));
+
+      expect(bindableSignal.status()).toBe('loading');
+
+      tick();
+
+      expect(bindableSignal.status()).toBe('active');
+      expect(bindableSignal.hasValue()).toBeTrue();
+    }));
+
+    it('should store the error thrown by the bound signal', fakeAsync(() => {
+      const sourceError = new Error('source error');
+      const shouldThrow = signal(false);
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+      const updaterSignal = computed(() => {
+        if (shouldThrow()) {
+          throw sourceError;
+        }
+        return 'newValue';
+      });
+
+      bindableSignal.bindTo(updaterSignal);
+      tick();
+      shouldThrow.set(true);
+      tick();
+
+      expect(bindableSignal.status()).toBe('error');
+      expect(bindableSignal.error()).toBe(sourceError);
+
+      shouldThrow.set(false);
+      tick();
+
+      expect(bindableSignal.status()).toBe('active');
+      expect(bindableSignal.error()).toBeUndefined();
+    }));
+  });
+
+  describe('error policy', () => {
+    it('should keep the last value and unbind the signal if the bound observable failed', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource);
+      updaterSource.next('newValue');
+      updaterSource.error(new Error('source error'));
+
+      expect(bindableSignal()).toBe('newValue');
+      expect(bindableSignal.isBound()).toBeFalse();
+    });
+
+    it('should be able to bind again without calling unbind() after the bound observable failed', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(throwError(() => new Error('source error')));
+
+      expect(() => bindableSignal.bindTo(of('newValue'))).not.toThrow();
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should reset the signal to the initial value if onError is reset-to-initial', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onError: 'reset-to-initial',
+      });
+
+      bindableSignal.bindTo(updaterSource);
+      updaterSource.next('newValue');
+      updaterSource.error(new Error('source error'));
+
+      expect(bindableSignal()).toBe('initialValue');
+      expect(bindableSignal.status()).toBe('error');
+    });
+
+    it('should set the signal to the value returned by the onError function', () => {
+      const sourceError = new Error('source error');
+      const onError = jasmine
+        .createSpy('onError')
+        .and.returnValue('fallbackValue');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onError,
+      });
+
+      bindableSignal.bindTo(throwError(() => sourceError));
+
+      expect(onError).toHaveBeenCalledWith(sourceError);
+      expect(bindableSignal()).toBe('fallbackValue');
+    });
+
+    it('should rethrow the error after the binding state was updated if onError is rethrow', fakeAsync(() => {
+      const sourceError = new Error('source error');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onError: 'rethrow',
+      });
+
+      bindableSignal.bindTo(throwError(() => sourceError));
+
+      expect(bindableSignal.status()).toBe('error');
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(() => tick()).toThrow(sourceError);
+    }));
+
+    it('should apply the onError function if the bound signal throws', fakeAsync(() => {
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue', { onError: () => 'fallbackValue' })
+      );
+
+      bindableSignal.bindTo(
+        computed<string>(() => {
+          throw new Error('source error');
+        })
+      );
+      tick();
+
+      expect(bindableSignal()).toBe('fallbackValue');
+      expect(bindableSignal.isBound()).toBeTrue();
+    }));
+
+    it('should resubscribe to the failed observable before applying the error policy', () => {
+      let subscriptionCounter = 0;
+      const failingSource = defer(() => {
+        subscriptionCounter++;
+        return subscriptionCounter < 3
+          ? throwError(() => new Error('source error'))
+          : of('newValue');
+      });
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        retry: { count: 2 },
+      });
+
+      bindableSignal.bindTo(failingSource);
+
+      expect(subscriptionCounter).toBe(3);
+      expect(bindableSignal()).toBe('newValue');
+      expect(bindableSignal.status()).toBe('complete');
+    });
+
+    it('should apply the error policy after the retry count was exceeded', () => {
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onError: () => 'fallbackValue',
+        retry: { count: 2 },
+      });
+
+      bindableSignal.bindTo(throwError(() => new Error('source error')));
+
+      expect(bindableSignal()).toBe('fallbackValue');
+      expect(bindableSignal.status()).toBe('error');
+    });
+
+    it('should wait for the exponential backoff delay before resubscribing', fakeAsync(() => {
+      let subscriptionCounter = 0;
+      const failingSource = defer(() => {
+        subscriptionCounter++;
+        return throwError(() => new Error('source error'));
+      });
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        retry: { count: 2, delay: 100, backoff: 'exponential' },
+      });
+
+      bindableSignal.bindTo(failingSource);
+
+      expect(subscriptionCounter).toBe(1);
+
+      tick(100);
+
+      expect(subscriptionCounter).toBe(2);
+
+      tick(100);
+
+      expect(subscriptionCounter).toBe(2);
+      expect(bindableSignal.status()).toBe('loading');
+
+      tick(100);
+
+      expect(subscriptionCounter).toBe(3);
+      expect(bindableSignal.status()).toBe('error');
+    }));
+  });
+
+  describe('bindAll', () => {
+    it('should update the bindable signal from every source with the latest strategy', fakeAsync(() => {
+      const updaterSource = new Subject<string>();
+      const updaterSignal = signal('signalValue');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindAll([updaterSource, updaterSignal]);
+      tick();
+
+      expect(bindableSignal()).toBe('signalValue');
+
+      updaterSource.next('observableValue');
+
+      expect(bindableSignal()).toBe('observableValue');
+
+      updaterSignal.set('anotherSignalValue');
+      tick();
+
+      expect(bindableSignal()).toBe('anotherSignalValue');
+    }));
+
+    it('should only update from the first emitting source with the first-wins strategy', () => {
+      const firstSource = new Subject<string>();
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindAll([firstSource, secondSource], {
+        strategy: 'first-wins',
+      });
+      secondSource.next('secondValue');
+      firstSource.next('firstValue');
+
+      expect(bindableSignal()).toBe('secondValue');
+      expect(firstSource.observed).toBeFalse();
+
+      secondSource.next('anotherSecondValue');
+
+      expect(bindableSignal()).toBe('anotherSecondValue');
+    });
+
+    it('should not subscribe to the remaining sources if a source emitted synchronously with the first-wins strategy', () => {
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindAll(
+        [new BehaviorSubject('firstValue'), secondSource],
+        {
+          strategy: 'first-wins',
+        }
+      );
+
+      expect(bindableSignal()).toBe('firstValue');
+      expect(secondSource.observed).toBeFalse();
+    });
+
+    it('should merge the values with the reducer strategy', () => {
+      const firstSource = new Subject<number>();
+      const secondSource = new Subject<number>();
+      const reducer = jasmine
+        .createSpy('reducer')
+        .and.callFake((current: number, value: number) => current + value);
+      const bindableSignal = bindable(0, { manualCleanup: true });
+
+      bindableSignal.bindAll([firstSource, secondSource], {
+        strategy: reducer,
+      });
+      firstSource.next(1);
+      secondSource.next(2);
+
+      expect(bindableSignal()).toBe(3);
+      expect(reducer).toHaveBeenCalledWith(1, 2, 1);
+    });
+
+    it('should stop updating from a source if its handle was unbound but keep the other sources bound', () => {
+      const firstSource = new Subject<string>();
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      const [firstHandle, secondHandle] = bindableSignal.bindAll([
+        firstSource,
+        secondSource,
+      ]);
+      firstHandle.unbind();
+      firstSource.next('firstValue');
+
+      expect(bindableSignal()).toBe('initialValue');
+      expect(bindableSignal.isBound()).toBeTrue();
+
+      secondSource.next('secondValue');
+
+      expect(bindableSignal()).toBe('secondValue');
+
+      secondHandle.unbind();
+
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(bindableSignal.status()).toBe('unbound');
+    });
+
+    it('should unbind every source if unbind() was called', () => {
+      const firstSource = new Subject<string>();
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindAll([firstSource, secondSource]);
+      bindableSignal.unbind();
+
+      expect(firstSource.observed).toBeFalse();
+      expect(secondSource.observed).toBeFalse();
+      expect(bindableSignal.status()).toBe('unbound');
+    });
+
+    it('should stay bound while at least one of the sources has not failed', () => {
+      const firstSource = new Subject<string>();
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindAll([firstSource, secondSource]);
+      firstSource.error(new Error('source error'));
+
+      expect(bindableSignal.isBound()).toBeTrue();
+      expect(bindableSignal.status()).toBe('error');
+
+      secondSource.error(new Error('source error'));
+
+      expect(bindableSignal.isBound()).toBeFalse();
+    });
+
+    it('should be complete only after every source completed', () => {
+      const firstSource = new Subject<string>();
+      const secondSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindAll([firstSource, secondSource]);
+      firstSource.complete();
+
+      expect(bindableSignal.status()).toBe('loading');
+
+      secondSource.complete();
+
+      expect(bindableSignal.status()).toBe('complete');
+    });
+
+    it('should throw if the signal was already bound', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(new Subject<string>());
+
+      expect(() => bindableSignal.bindAll([new Subject<string>()])).toThrow();
+      expect(() => bindableSignal.bindTo(new Subject<string>())).toThrow();
+    });
+
+    it('should not bind any of the sources if one of them cannot be bound', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      expect(() =>
+        bindableSignal.bindAll([updaterSource, signal('newValue')])
+      ).toThrow();
+      expect(updaterSource.observed).toBeFalse();
+      expect(bindableSignal.isBound()).toBeFalse();
+    });
+  });
+
+  describe('bindTwoWay', () => {
+    it('should update the bindable signal from the target signal and push the written values back', fakeAsync(() => {
+      const target = signal('targetValue');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTwoWay(target);
+      tick();
+
+      expect(bindableSignal()).toBe('targetValue');
+
+      bindableSignal.set('newValue');
+
+      expect(target()).toBe('newValue');
+
+      bindableSignal.update((value) => value + '!');
+
+      expect(target()).toBe('newValue!');
+
+      target.set('anotherTargetValue');
+      tick();
+
+      expect(bindableSignal()).toBe('anotherTargetValue');
+    }));
+
+    it('should not write the value echoed back by the target signal to the bindable signal', fakeAsync(() => {
+      const target = signal(1);
+      const fromTarget = jasmine
+        .createSpy('fromTarget')
+        .and.callFake((value: number) => value * 10);
+      const bindableSignal = TestBed.runInInjectionContext(() => bindable(0));
+
+      bindableSignal.bindTwoWay(target, {
+        fromTarget,
+        toTarget: (value: number) => value / 10,
+      });
+      tick();
+
+      expect(bindableSignal()).toBe(10);
+
+      fromTarget.calls.reset();
+      bindableSignal.set(50);
+      tick();
+
+      expect(target()).toBe(5);
+      expect(bindableSignal()).toBe(50);
+      expect(fromTarget).not.toHaveBeenCalled();
+    }));
+
+    it('should update the bindable signal from the target subject and push the written values back', () => {
+      const target = new Subject<string>();
+      const pushedValues: string[] = [];
+      target.subscribe((value) => pushedValues.push(value));
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTwoWay(target);
+      target.next('targetValue');
+
+      expect(bindableSignal()).toBe('targetValue');
+
+      bindableSignal.set('newValue');
+
+      expect(pushedValues).toEqual(['targetValue', 'newValue']);
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should map the values in both directions', () => {
+      const target = new BehaviorSubject<string>('1');
+      const bindableSignal = bindable(0, { manualCleanup: true });
+
+      bindableSignal.bindTwoWay(target, {
+        fromTarget: (value) => parseInt(value),
+        toTarget: (value) => value.toString(),
+      });
+
+      expect(bindableSignal()).toBe(1);
+
+      bindableSignal.set(2);
+
+      expect(target.value).toBe('2');
+      expect(bindableSignal()).toBe(2);
+    });
+
+    it('should not push the written values to the target after unbind() was called', () => {
+      const target = new BehaviorSubject('targetValue');
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTwoWay(target);
+      bindableSignal.unbind();
+      bindableSignal.set('newValue');
+
+      expect(target.value).toBe('targetValue');
+      expect(target.observed).toBeFalse();
+    });
+
+    it('should not push the written values to a one-way bound source', () => {
+      const source = new BehaviorSubject('sourceValue');
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(source);
+      bindableSignal.set('newValue');
+
+      expect(source.value).toBe('sourceValue');
+    });
+
+    it('should throw if the target signal is bound without an Injector', () => {
+      const destroyRef = TestBed.inject(DestroyRef);
+      const bindableSignal = bindable('initialValue', { destroyRef });
+
+      expect(() => bindableSignal.bindTwoWay(signal('targetValue'))).toThrow();
+    });
+  });
+
+  describe('bindTo options', () => {
+    it('should map the values of the bound observable', () => {
+      const updaterSource = new BehaviorSubject({ name: 'newValue' });
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource, { map: (value) => value.name });
+
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should map the values of the bound signal', fakeAsync(() => {
+      const updaterSignal = signal(1);
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(updaterSignal, {
+        map: (value) => value.toString(),
+      });
+      tick();
+
+      expect(bindableSignal()).toBe('1');
+    }));
+
+    it('should skip the values not matching the filter', () => {
+      const updaterSource = new Subject<number>();
+      const bindableSignal = bindable(0, { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource, { filter: (value) => value > 1 });
+      updaterSource.next(2);
+      updaterSource.next(1);
+
+      expect(bindableSignal()).toBe(2);
+    });
+
+    it('should skip the values equal to the previous one with the custom comparator if distinct is provided', () => {
+      const updaterSource = new Subject<{ id: number }>();
+      const bindableSignal = bindable({ id: 0 }, { manualCleanup: true });
+      const first = { id: 1 };
+
+      bindableSignal.bindTo(updaterSource, {
+        distinct: (previous, current) => previous.id === current.id,
+      });
+      updaterSource.next(first);
+      updaterSource.next({ id: 1 });
+
+      expect(bindableSignal()).toBe(first);
+    });
+
+    it('should debounce the values of the bound observable', fakeAsync(() => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(updaterSource, { debounceMs: 100 });
+      updaterSource.next('first');
+      tick(50);
+      updaterSource.next('second');
+      tick(50);
+
+      expect(bindableSignal()).toBe('initialValue');
+
+      tick(50);
+
+      expect(bindableSignal()).toBe('second');
+    }));
+
+    it('should debounce the values of the bound signal', fakeAsync(() => {
+      const updaterSignal = signal('first');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(updaterSignal, { debounceMs: 100 });
+      tick(50);
+      updaterSignal.set('second');
+      tick(50);
+
+      expect(bindableSignal()).toBe('initialValue');
+
+      tick(100);
+
+      expect(bindableSignal()).toBe('second');
+    }));
+
+    it('should throttle the values of the bound signal', fakeAsync(() => {
+      const updaterSignal = signal('first');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(updaterSignal, { throttleMs: 100 });
+      tick();
+
+      expect(bindableSignal()).toBe('first');
+
+      updaterSignal.set('second');
+      tick();
+      updaterSignal.set('third');
+      tick();
+
+      expect(bindableSignal()).toBe('first');
+
+      tick(100);
+
+      expect(bindableSignal()).toBe('third');
+
+      bindableSignal.unbind();
+    }));
+
+    it('should not set the pending debounced value after unbind() was called', fakeAsync(() => {
+      const updaterSignal = signal('first');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+
+      bindableSignal.bindTo(updaterSignal, { debounceMs: 100 });
+      tick();
+      bindableSignal.unbind();
+      tick(100);
+
+      expect(bindableSignal()).toBe('initialValue');
+    }));
+  });
+
+  describe('writesWhileBound', () => {
+    it('should allow writing the bound signal by default', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(new Subject<string>());
+      bindableSignal.set('newValue');
+
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should throw if the bound signal was written and writesWhileBound is throw', () => {
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        writesWhileBound: 'throw',
+      });
+
+      bindableSignal.set('newValue');
+      bindableSignal.bindTo(new Subject<string>());
+
+      expect(() => bindableSignal.set('anotherValue')).toThrow();
+      expect(() => bindableSignal.update((value) => value + '!')).toThrow();
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should write the bound signal and warn if writesWhileBound is warn', () => {
+      const warnSpy = spyOn(console, 'warn');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        writesWhileBound: 'warn',
+      });
+
+      bindableSignal.bindTo(new Subject<string>());
+      bindableSignal.set('newValue');
+
+      expect(warnSpy).toHaveBeenCalled();
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should apply the queued writes in order after unbind() if writesWhileBound is queue-until-unbind', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        writesWhileBound: 'queue-until-unbind',
+      });
+
+      bindableSignal.bindTo(updaterSource);
+      bindableSignal.set('newValue');
+      bindableSignal.update((value) => value + '!');
+      updaterSource.next('sourceValue');
+
+      expect(bindableSignal()).toBe('sourceValue');
+
+      bindableSignal.unbind();
+
+      expect(bindableSignal()).toBe('newValue!');
+    });
+
+    it('should apply the queued writes after the bound observable failed if writesWhileBound is queue-until-unbind', () => {
+      const updaterSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        writesWhileBound: 'queue-until-unbind',
+        onError: 'reset-to-initial',
+      });
+
+      bindableSignal.bindTo(updaterSource);
+      bindableSignal.set('newValue');
+      updaterSource.error(new Error('source error'));
+
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should not apply writesWhileBound to a two-way binding', () => {
+      const target = new BehaviorSubject('targetValue');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        writesWhileBound: 'throw',
+      });
+
+      bindableSignal.bindTwoWay(target);
+      bindableSignal.set('newValue');
+
+      expect(target.value).toBe('newValue');
+    });
+  });
+
+  describe('completion', () => {
+    it('should stay bound after the bound observable completed by default', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.bindTo(of('newValue'));
+
+      expect(bindableSignal.isBound()).toBeTrue();
+      expect(() => bindableSignal.bindTo(of('anotherValue'))).toThrow();
+    });
+
+    it('should be unbound after the bound observable completed if unbindOnComplete is true', () => {
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        unbindOnComplete: true,
+      });
+
+      bindableSignal.bindTo(of('newValue'));
+
+      expect(bindableSignal.isBound()).toBeFalse();
+      expect(bindableSignal.status()).toBe('complete');
+
+      bindableSignal.bindTo(of('anotherValue'));
+
+      expect(bindableSignal()).toBe('anotherValue');
+    });
+
+    it('should resubscribe to the completed observable after the delay if rebindOnComplete is provided', fakeAsync(() => {
+      let subscriptionCounter = 0;
+      const pollingSource = defer(() => of(++subscriptionCounter));
+      const bindableSignal = bindable(0, {
+        manualCleanup: true,
+        rebindOnComplete: { delayMs: 1000 },
+      });
+
+      bindableSignal.bindTo(pollingSource);
+
+      expect(bindableSignal()).toBe(1);
+
+      tick(1000);
+
+      expect(bindableSignal()).toBe(2);
+      expect(bindableSignal.isBound()).toBeTrue();
+
+      bindableSignal.unbind();
+      tick(1000);
+
+      expect(bindableSignal()).toBe(2);
+    }));
+
+    it('should throw if rebindOnComplete is provided for a promise or an async iterable source', () => {
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        rebindOnComplete: { delayMs: 1000 },
+      });
+
+      expect(() =>
+        bindableSignal.bindTo(Promise.resolve('newValue'))
+      ).toThrowError(/rebindOnComplete/);
+      expect(() =>
+        bindableSignal.bindTo(toAsyncIterable(new Subject<string>()))
+      ).toThrowError(/rebindOnComplete/);
+      expect(bindableSignal.isBound()).toBeFalse();
+    });
+
+    it('should call onUnbound with the reason of the unbinding', () => {
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        unbindOnComplete: true,
+        onUnbound,
+      });
+
+      bindableSignal.bindTo(new Subject<string>());
+      bindableSignal.unbind();
+
+      expect(onUnbound).toHaveBeenCalledWith('manual');
+
+      bindableSignal.bindTo(throwError(() => new Error('source error')));
+
+      expect(onUnbound).toHaveBeenCalledWith('error');
+
+      bindableSignal.bindTo(of('newValue'));
+
+      expect(onUnbound).toHaveBeenCalledWith('complete');
+      expect(onUnbound).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not call onUnbound again if unbind() was called after an automatic unbinding', () => {
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onUnbound,
+      });
+
+      bindableSignal.bindTo(throwError(() => new Error('source error')));
+      bindableSignal.unbind();
+
+      expect(onUnbound).toHaveBeenCalledOnceWith('error');
+    });
+
+    it('should call onUnbound once the last source of bindAll was unbound', () => {
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onUnbound,
+      });
+
+      const [firstHandle, secondHandle] = bindableSignal.bindAll([
+        new Subject<string>(),
+        new Subject<string>(),
+      ]);
+      firstHandle.unbind();
+
+      expect(onUnbound).not.toHaveBeenCalled();
+
+      secondHandle.unbind();
+
+      expect(onUnbound).toHaveBeenCalledOnceWith('manual');
+    });
+  });
+
+  describe('rebind', () => {
+    it('should switch to the new source and ignore the values of the previous one', () => {
+      const previousSource = new BehaviorSubject('previousValue');
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+      bindableSignal.bindTo(previousSource);
+
+      bindableSignal.rebind(new BehaviorSubject('newValue'));
+
+      expect(bindableSignal()).toBe('newValue');
+      expect(previousSource.observed).toBeFalse();
+
+      previousSource.next('staleValue');
+
+      expect(bindableSignal()).toBe('newValue');
+      expect(bindableSignal.isBound()).toBeTrue();
+    });
+
+    it('should keep the value until the new source emits by default', () => {
+      const newSource = new Subject<string>();
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+      bindableSignal.bindTo(of('previousValue'));
+
+      bindableSignal.rebind(newSource);
+
+      expect(bindableSignal()).toBe('previousValue');
+      expect(bindableSignal.status()).toBe('loading');
+
+      newSource.next('newValue');
+
+      expect(bindableSignal()).toBe('newValue');
+    });
+
+    it('should reset the value to the initial value if keepValueUntilFirstEmission is false', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+      bindableSignal.bindTo(of('previousValue'));
+
+      bindableSignal.rebind(new Subject<string>(), {
+        keepValueUntilFirstEmission: false,
+      });
+
+      expect(bindableSignal()).toBe('initialValue');
+    });
+
+    it('should switch from a signal source to an observable source', fakeAsync(() => {
+      const previousSource = signal('previousValue');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+      bindableSignal.bindTo(previousSource);
+      tick();
+
+      bindableSignal.rebind(new BehaviorSubject('newValue'));
+      previousSource.set('staleValue');
+      tick();
+
+      expect(bindableSignal()).toBe('newValue');
+    }));
+
+    it('should switch from an observable source to a mapped signal source', fakeAsync(() => {
+      const previousSource = new BehaviorSubject('previousValue');
+      const bindableSignal = TestBed.runInInjectionContext(() =>
+        bindable('initialValue')
+      );
+      bindableSignal.bindTo(previousSource);
+
+      bindableSignal.rebind(signal(1), { map: (value) => `${value}` });
+      tick();
+
+      expect(bindableSignal()).toBe('1');
+      expect(previousSource.observed).toBeFalse();
+    }));
+
+    it('should bind the signal if it was not bound', () => {
+      const bindableSignal = bindable('initialValue', { manualCleanup: true });
+
+      bindableSignal.rebind(new BehaviorSubject('newValue'));
+
+      expect(bindableSignal()).toBe('newValue');
+      expect(bindableSignal.isBound()).toBeTrue();
+    });
+
+    it('should not call onUnbound when switching the source', () => {
+      const onUnbound = jasmine.createSpy('onUnbound');
+      const bindableSignal = bindable('initialValue', {
+        manualCleanup: true,
+        onUnbound,
+      });
+      bindableSignal.bindTo(new Subject<string>());
+
+      bindableSignal.rebind(new Subject<string>());
+
+      expect(onUnbound).not.toHaveBeenCalled();
+    });
+  });
 });
 
+function toAsyncIterable<T>(source: Subject<T>): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]: () => {
+      const buffer: T[] = [];
+      let waiting: ((result: IteratorResult<T>) => void) | undefined;
+      const subscription = source.subscribe((value) => {
+        if (waiting !== undefined) {
+          waiting({ value, done: false });
+          waiting = undefined;
+        } else {
+          buffer.push(value);
+        }
+      });
+      return {
+        next: () =>
+          buffer.length > 0
+            ? Promise.resolve({ value: buffer.shift() as T, done: false })
+            : new Promise((resolve) => (waiting = resolve)),
+        return: () => {
+          subscription.unsubscribe();
+          return Promise.resolve({ value: undefined, done: true });
+        },
+      };
+    },
+  };
+}
+
 function collectMockDestroyRefCallbacks(
   mockDestroyRef: DestroyRef,
   onDestroyHooks: (() => void)[]
@@ -14,16 +14,216 @@ import {
   untracked,
 } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { MonoTypeOperatorFunction, Observable, Subscription, pipe } from 'rxjs';
+import {
+  MonoTypeOperatorFunction,
+  Observable,
+  OperatorFunction,
+  Subject,
+  asyncScheduler,
+  debounceTime,
+  distinctUntilChanged,
+  filter,
+  from,
+  isObservable,
+  map,
+  pipe,
+  repeat,
+  retry,
+  throttleTime,
+  timer,
+} from 'rxjs';
+import { fromAsyncIterable } from './custom-observables';
+
+export type BindableSource<T> =
+  | Observable<T>
+  | Signal<T>
+  | PromiseLike<T>
+  | AsyncIterable<T>;
+
+/**
+ * - **unbound**: the signal is not bound to any source.
+ * - **loading**: the signal is bound but the source has not emitted a value yet.
+ * - **active**: the source has emitted at least one value.
+ * - **error**: the source has failed, the error is available via the error signal.
+ * - **complete**: the source has completed.
+ */
+export type BindableStatus =
+  | 'unbound'
+  | 'loading'
+  | 'active'
+  | 'error'
+  | 'complete';
+
+/**
+ * - **keep-last**: the signal keeps the last value received before the error.
+ * - **reset-to-initial**: the signal is reset to the initial value of the bindable.
+ * - **rethrow**: the signal keeps the last value and the error is thrown again after the binding state was updated.
+ * - **function**: the signal is set to the value returned by the function.
+ */
+export type BindableErrorPolicy<T> =
+  | 'keep-last'
+  | 'reset-to-initial'
+  | 'rethrow'
+  | ((error: unknown) => T);
+
+/**
+ * - **count**: the maximum number of resubscriptions before the error policy is applied.
+ * - **delay**: the delay in milliseconds before resubscribing, no delay by default.
+ * - **backoff**: when 'exponential', the delay is doubled after every failed attempt. Defaults to 'constant'.
+ */
+export type BindableRetryConfig = {
+  count: number;
+  delay?: number;
+  backoff?: 'constant' | 'exponential';
+};
+
+/**
+ * - **allow**: the value is written, the next value of the source overwrites it.
+ * - **throw**: an error is thrown.
+ * - **warn**: the value is written and a warning is logged to the console.
+ * - **queue-until-unbind**: the writes are queued and applied in order when the signal is unbound.
+ */
+export type BindableWritePolicy =
+  | 'allow'
+  | 'throw'
+  | 'warn'
+  | 'queue-until-unbind';
+
+/**
+ * - **manual**: unbind() was called or the handles of every source were unbound.
+ * - **error**: the source failed.
+ * - **complete**: the source completed and unbindOnComplete is true.
+ */
+export type BindableUnbindReason = 'manual' | 'error' | 'complete';
+
+export type BindableOptions<T> = CreateSignalOptions<T> & {
+  destroyRef?: DestroyRef;
+  injector?: Injector;
+  manualCleanup?: boolean;
+  onError?: BindableErrorPolicy<T>;
+  retry?: BindableRetryConfig;
+  writesWhileBound?: BindableWritePolicy;
+  unbindOnComplete?: boolean;
+  rebindOnComplete?: { delayMs: number };
+  onUnbound?: (reason: BindableUnbindReason) => void;
+};
+
+/**
+ * - **latest**: every value of every source is set on the signal.
+ * - **first-wins**: the first source emitting a value is kept, every other source is unbound.
+ * - **function**: a reducer called with the current value of the signal, the new value and the index of the source that emitted it.
+ */
+export type BindAllStrategy<T> =
+  | 'latest'
+  | 'first-wins'
+  | ((current: T, value: T, sourceIndex: number) => T);
+
+export type BindAllOptions<T> = {
+  strategy?: BindAllStrategy<T>;
+};
+
+export type BindingHandle = {
+  unbind: () => void;
+};
+
+/**
+ * - **fromTarget**: maps the value of the target before it is set on the BindableSignal.
+ * - **toTarget**: maps the value written to the BindableSignal before it is pushed to the target.
+ */
+export type TwoWayBindingOptions<T, S> = {
+  fromTarget?: (value: S) => T;
+  toTarget?: (value: T) => S;
+};
+
+/**
+ * The options are applied in the following order, the same way for every type of source:
+ * - **map**: maps the value of the source to the type of the BindableSignal.
+ * - **filter**: skips the mapped values not matching the predicate.
+ * - **distinct**: skips the mapped value if it equals the previous one, a custom comparator can be provided.
+ * - **debounceMs**: only sets the latest value after the given time has passed without another value.
+ * - **throttleMs**: sets the first value then at most one value per the given time (leading and trailing).
+ */
+export type BindToOptions<S, T> = {
+  map?: (value: S) => T;
+  filter?: (value: T) => boolean;
+  distinct?: boolean | ((previous: T, current: T) => boolean);
+  debounceMs?: number;
+  throttleMs?: number;
+};
+
+/**
+ * The BindToOptions applied to the new source, and:
+ * - **keepValueUntilFirstEmission**: when false, the signal is reset to the initial value until the new source emits. Defaults to true.
+ */
+export type RebindOptions<S, T> = BindToOptions<S, T> & {
+  keepValueUntilFirstEmission?: boolean;
+};
 
 export type BindableSignal<T> = WritableSignal<T> & {
-  bindTo: (source: Observable<T> | Signal<T>) => WritableSignal<T>;
+  bindTo: {
+    (
+      source: BindableSource<T>,
+      options?: BindToOptions<T, T>
+    ): WritableSignal<T>;
+    <S>(
+      source: BindableSource<S>,
+      options: BindToOptions<S, T> & { map: (value: S) => T }
+    ): WritableSignal<T>;
+  };
+  rebind: {
+    (
+      source: BindableSource<T>,
+      options?: RebindOptions<T, T>
+    ): WritableSignal<T>;
+    <S>(
+      source: BindableSource<S>,
+      options: RebindOptions<S, T> & { map: (value: S) => T }
+    ): WritableSignal<T>;
+  };
+  bindAll: (
+    sources: BindableSource<T>[],
+    options?: BindAllOptions<T>
+  ) => BindingHandle[];
+  bindTwoWay: {
+    (
+      target: WritableSignal<T> | Subject<T>,
+      options?: TwoWayBindingOptions<T, T>
+    ): WritableSignal<T>;
+    <S>(
+      target: WritableSignal<S> | Subject<S>,
+      options: Required<TwoWayBindingOptions<T, S>>
+    ): WritableSignal<T>;
+  };
   unbind: () => void;
+  status: Signal<BindableStatus>;
+  error: Signal<unknown>;
+  isBound: Signal<boolean>;
+  hasValue: Signal<boolean>;
 };
 
 /**
  * Factory method to create a BindableSignal.
  * The BindableSignal is a type of WritableSignal and has a bindTo method that will bind the signal to updates from an observable or another signal.
+ * Promises and async iterables are also accepted by the bindTo method, they are bound the same way as observables (same cleanup rules apply).
+ * After unbind, a late promise resolution is ignored and the return method of the async iterator is called.
+ *
+ * The lifecycle of the current binding is reflected by read-only signals on the returned BindableSignal:
+ * status, error, isBound and hasValue. They are reset when the signal is unbound or bound again.
+ * An error of the source is stored in the error signal and the status becomes 'error'. Since a failed observable
+ * cannot emit anymore, isBound becomes false and the signal can be bound again without calling unbind().
+ *
+ * The values of the source can be transformed by the BindToOptions of the bindTo method (map, filter, distinct, debounceMs, throttleMs).
+ * Signal sources are piped through the same operators, so debouncing and throttling works for them as well.
+ *
+ * The rebind method switches the signal to another source in one step, like switchMap: the previous sources are unsubscribed
+ * before the new one is subscribed, so neither a stale value of the previous source nor the synchronous value of the new one is missed.
+ * It can switch between any type of sources and also binds the signal if it was not bound. onUnbound is not called when switching.
+ *
+ * The bindAll method binds the signal to several sources at once, the BindAllStrategy decides how their values are merged.
+ * It returns a BindingHandle for every source to unbind them individually, while unbind() still unbinds all of them.
+ *
+ * The bindTwoWay method binds the signal to a WritableSignal or Subject target and also pushes the values written by set() or update()
+ * back to the target. The value coming back from the target as a result of the push is ignored to prevent ping-pong updates.
  *
  * @param initialValue The initial value assigned to the signal.
  * @param options
@@ -35,15 +235,22 @@ export type BindableSignal<T> = WritableSignal<T> & {
  *                         Note that in case of manualCleanup, the injector will not be used therefor cannot be provided.
  * @param options.manualCleanup When true, the signal will not be destroyed when the destroyRef is destroyed. The operatorFunction has to be provided in this case.
  *                              In case of binding to a signal, the manualCleanup cannot be used.
- * @returns BindableSignal<T> A signal that can be bound to an observable or signal.
+ * @param options.onError The BindableErrorPolicy deciding the signal value when the source fails. Defaults to 'keep-last'.
+ *                        In case of binding to a signal, it is applied every time the source signal throws, but the binding stays active.
+ * @param options.retry Resubscribes to the failed source before the error policy is applied. Not applicable when binding to a signal.
+ *                      Note that retrying a promise source will not call the async function again, it resubscribes to the same rejected promise.
+ * @param options.writesWhileBound The BindableWritePolicy deciding what happens when set() or update() is called while the signal is bound.
+ *                                 Defaults to 'allow'. Not applied to two-way bindings.
+ * @param options.unbindOnComplete When true, isBound becomes false when the source completes, so it can be bound again without calling unbind().
+ * @param options.rebindOnComplete Resubscribes to the completed source after the given delay, e.g. to poll an HTTP request.
+ *                                 Only observable sources can be resubscribed, binding to a promise or an async iterable throws.
+ *                                 Not applicable when binding to a signal since it never completes.
+ * @param options.onUnbound Called when the signal becomes unbound, with the reason of the manual or automatic unbinding.
+ * @returns BindableSignal<T> A signal that can be bound to an observable, signal, promise or async iterable.
  */
 export function bindable<T>(
   initialValue: T,
-  options?: CreateSignalOptions<T> & {
-    destroyRef?: DestroyRef;
-    injector?: Injector;
-    manualCleanup?: boolean;
-  }
+  options?: BindableOptions<T>
 ): BindableSignal<T> {
   assertNoDestroyRefOrInjectorProvidedWithManualCleanup(options);
 
@@ -53,38 +260,122 @@ export function bindable<T>(
   }
 
   const bindableSignal = signal<T>(initialValue, options);
-  let bound = false;
+  // the set method of the returned BindableSignal is overridden, internal updates use the original one
+  const setSignal = bindableSignal.set;
+  const status = signal<BindableStatus>('unbound');
+  const error = signal<unknown>(undefined);
+  const bound = signal(false);
+  const hasValue = signal(false);
 
-  let effectRef: EffectRef | undefined = undefined;
-  let subscription: Subscription | undefined = undefined;
-  const unbind: () => void = () => {
-    if (effectRef !== undefined) {
-      effectRef.destroy();
-      effectRef = undefined;
-    } else if (subscription !== undefined) {
-      subscription.unsubscribe();
-      subscription = undefined;
+  const setValue = (value: T) => {
+    setSignal(value);
+    hasValue.set(true);
+    status.set('active');
+    error.set(undefined);
+  };
+  const setError = (err: unknown) => {
+    error.set(err);
+    status.set('error');
+    const onError = options?.onError ?? 'keep-last';
+    if (onError === 'reset-to-initial') {
+      setSignal(initialValue);
+    } else if (typeof onError === 'function') {
+      setSignal(onError(err));
+    }
+  };
+  // unbind can be called from an effect or a computed, the state signals are written untracked to allow it
+  const resetState = (bindingStatus: BindableStatus) =>
+    untracked(() => {
+      const wasBound = bound();
+      bound.set(bindingStatus !== 'unbound');
+      status.set(bindingStatus);
+      error.set(undefined);
+      hasValue.set(false);
+      if (bindingStatus === 'unbound' && wasBound) {
+        onUnbound('manual');
+      }
+    });
+
+  const onUnbound = (reason: BindableUnbindReason) => {
+    flushQueuedWrites();
+    options?.onUnbound?.(reason);
+  };
+
+  let queuedWrites: ((value: T) => T)[] = [];
+  const flushQueuedWrites = () => {
+    const writes = queuedWrites;
+    queuedWrites = [];
+    writes.forEach((updateFn) =>
+      setSignal(updateFn(untracked(bindableSignal)))
+    );
+  };
+
+  let bindings: Binding<T>[] = [];
+
+  const updateBound = (reason: BindableUnbindReason) =>
+    untracked(() => {
+      const wasBound = bound();
+      bound.set(
+        bindings.some(
+          (b) => !b.failed && !(b.completed && options?.unbindOnComplete)
+        )
+      );
+      if (wasBound && !bound()) {
+        onUnbound(reason);
+      }
+    });
+
+  const terminateBindings = () => {
+    bindings.forEach((binding) => binding.terminate());
+    bindings = [];
+  };
+
+  const removeBinding = (binding: Binding<T>) => {
+    const index = bindings.indexOf(binding);
+    if (index === -1) {
+      return;
+    }
+    bindings.splice(index, 1);
+    binding.terminate();
+    if (bindings.length === 0) {
+      resetState('unbound');
     } else {
+      updateBound('manual');
+    }
+  };
+
+  const unbind: () => void = () => {
+    if (bindings.length === 0) {
       throw new Error(
         'Unbind was called before the BindableSignal was bound to an Observable or Signal!'
       );
     }
-    bound = false;
+    terminateBindings();
+    resetState('unbound');
   };
 
-  const bindTo: (source: Observable<T> | Signal<T>) => WritableSignal<T> = (
-    source: Observable<T> | Signal<T>
-  ) => {
-    assertNotInReactiveContext(
-      bindTo,
-      'Invoking `bindTo` causes new subscriptions every time. ' +
-        'Consider moving `bindTo` outside of the reactive context and read the signal value where needed.'
-    );
-    if (bound) {
+  // takeUntilDestroyed completes the sources on destroy, which must not be handled as the completion of the source
+  let destroyed = false;
+  let destroyHookRegistered = false;
+  const getTerminator = <S>(): MonoTypeOperatorFunction<S> => {
+    if (options?.manualCleanup === true) {
+      return pipe();
+    }
+    const destroyRef = options?.destroyRef ?? injector?.get(DestroyRef);
+    if (destroyRef === undefined) {
       throw new Error(
-        'Signal is already bound to an observable. Call unbind() before binding it again.'
+        'Using the bindable() factory function in injection context or prodiving the DestroyRef ' +
+          'or the Injector is required when not using manual cleanup to prevent memory leaks.'
       );
     }
+    if (!destroyHookRegistered) {
+      destroyHookRegistered = true;
+      destroyRef.onDestroy(() => (destroyed = true));
+    }
+    return takeUntilDestroyed(destroyRef);
+  };
+
+  const assertCanBind = <S>(source: BindableSource<S>) => {
     if (isSignal(source)) {
       if (injector === undefined) {
         throw new Error(
@@ -93,43 +384,332 @@ export function bindable<T>(
             'bindable() factory method needs to be called in injection context. Providing the DestroyRef will make the Injector undefined.'
         );
       }
+    } else {
+      if (options?.rebindOnComplete !== undefined && !isObservable(source)) {
+        throw new Error(
+          'The rebindOnComplete option can only be used with observable sources, a promise or an async iterable can not be run again.'
+        );
+      }
+      getTerminator();
+    }
+  };
 
-      effectRef = effect(
-        () => {
-          const sourceValue = source();
-          untracked(() => bindableSignal.set(sourceValue));
-        },
-        parseInt(VERSION.major) < 19
-          ? {
-              injector,
-              allowSignalWrites: true,
+  const connect = <S>(
+    source: BindableSource<S>,
+    onValue: (value: T, binding: Binding<T>) => void,
+    operator: OperatorFunction<S, T> = pipe() as OperatorFunction<S, T>
+  ): Binding<T> => {
+    const binding: Binding<T> = {
+      terminate: () => undefined,
+      failed: false,
+      completed: false,
+    };
+    bindings.push(binding);
+    const onFailure = (err: unknown) => {
+      binding.failed = true;
+      setError(err);
+      updateBound('error');
+      if (options?.onError === 'rethrow') {
+        throw err;
+      }
+    };
+    const subscribe = (): (() => void) => {
+      if (isSignal(source)) {
+        // the signal values are piped through the same operators as the observable sources
+        const sourceValues = new Subject<S>();
+        const subscription = sourceValues.pipe(operator).subscribe({
+          next: (value) => onValue(value, binding),
+          error: onFailure,
+        });
+        const effectRef = effect(
+          () => {
+            try {
+              const sourceValue = source();
+              untracked(() => sourceValues.next(sourceValue));
+            } catch (err) {
+              untracked(() => setError(err));
+              if (options?.onError === 'rethrow') {
+                throw err;
+              }
             }
-          : { injector }
-      );
-    } else {
-      let operatorFunction: MonoTypeOperatorFunction<T>;
-      if (options?.manualCleanup === true) {
-        operatorFunction = pipe();
+          },
+          parseInt(VERSION.major) < 19
+            ? {
+                injector,
+                allowSignalWrites: true,
+              }
+            : { injector }
+        );
+        return () => {
+          effectRef.destroy();
+          subscription.unsubscribe();
+        };
       } else {
-        const destroyRef = options?.destroyRef ?? injector?.get(DestroyRef);
-        if (destroyRef === undefined) {
-          throw new Error(
-            'Using the bindable() factory function in injection context or prodiving the DestroyRef ' +
-              'or the Injector is required when not using manual cleanup to prevent memory leaks.'
-          );
-        }
-        operatorFunction = takeUntilDestroyed(destroyRef);
+        const subscription = toObservable(source)
+          .pipe(
+            retryWithConfig(options?.retry),
+            repeatWithConfig(options?.rebindOnComplete),
+            operator,
+            getTerminator()
+          )
+          .subscribe({
+            next: (value) => onValue(value, binding),
+            error: onFailure,
+            complete: () => {
+              if (destroyed) {
+                return;
+              }
+              binding.completed = true;
+              if (bindings.every((b) => b.completed)) {
+                status.set('complete');
+              }
+              updateBound('complete');
+            },
+          });
+        return () => subscription.unsubscribe();
       }
+    };
+    binding.terminate = subscribe();
+    return binding;
+  };
+
+  const prepareBinding = <S>(
+    sources: BindableSource<S>[],
+    method: (...args: never[]) => unknown,
+    methodName: string,
+    allowBound = false
+  ) => {
+    assertNotInReactiveContext(
+      method,
+      `Invoking \`${methodName}\` causes new subscriptions every time. ` +
+        `Consider moving \`${methodName}\` outside of the reactive context and read the signal value where needed.`
+    );
+    if (!allowBound && bound()) {
+      throw new Error(
+        'Signal is already bound to an observable. Call unbind() before binding it again.'
+      );
+    }
+    sources.forEach(assertCanBind);
+    // failed observable sources are not bound anymore but their closed subscriptions are still kept until now
+    terminateBindings();
+    resetState('loading');
+  };
 
-      subscription = source
-        .pipe(operatorFunction)
-        .subscribe((value) => bindableSignal.set(value));
+  const bindTo = <S>(
+    source: BindableSource<S>,
+    bindToOptions?: BindToOptions<S, T>
+  ): WritableSignal<T> => {
+    prepareBinding([source], bindTo, 'bindTo');
+    connect(source, setValue, transformWithOptions(bindToOptions));
+    return bindableSignal;
+  };
+
+  const rebind = <S>(
+    source: BindableSource<S>,
+    rebindOptions?: RebindOptions<S, T>
+  ): WritableSignal<T> => {
+    prepareBinding([source], rebind, 'rebind', true);
+    if (rebindOptions?.keepValueUntilFirstEmission === false) {
+      setSignal(initialValue);
     }
-    bound = true;
+    connect(source, setValue, transformWithOptions(rebindOptions));
     return bindableSignal;
   };
 
-  return Object.assign(bindableSignal, { bindTo, unbind }) as BindableSignal<T>;
+  const bindAll: (
+    sources: BindableSource<T>[],
+    bindAllOptions?: BindAllOptions<T>
+  ) => BindingHandle[] = (
+    sources: BindableSource<T>[],
+    bindAllOptions?: BindAllOptions<T>
+  ) => {
+    prepareBinding(sources, bindAll, 'bindAll');
+    const strategy = bindAllOptions?.strategy ?? 'latest';
+    let winner: Binding<T> | undefined = undefined;
+    const connected: (Binding<T> | undefined)[] = [];
+    sources.forEach((source, sourceIndex) => {
+      if (winner !== undefined) {
+        connected.push(undefined);
+        return;
+      }
+      const connectedBinding = connect(source, (value, binding) => {
+        if (strategy === 'first-wins') {
+          if (winner === undefined) {
+            winner = binding;
+            bindings
+              .filter((b) => b !== binding)
+              .forEach((b) => removeBinding(b));
+          }
+          setValue(value);
+        } else if (strategy === 'latest') {
+          setValue(value);
+        } else {
+          setValue(strategy(untracked(bindableSignal), value, sourceIndex));
+        }
+      });
+      connected.push(connectedBinding);
+    });
+    return connected.map((binding) => ({
+      unbind: () => {
+        if (binding !== undefined) {
+          removeBinding(binding);
+        }
+      },
+    }));
+  };
+
+  const bindTwoWay = <S>(
+    target: WritableSignal<S> | Subject<S>,
+    twoWayOptions?: TwoWayBindingOptions<T, S>
+  ): WritableSignal<T> => {
+    prepareBinding([target], bindTwoWay, 'bindTwoWay');
+    const fromTarget =
+      twoWayOptions?.fromTarget ?? ((value: S) => value as unknown as T);
+    const toTarget =
+      twoWayOptions?.toTarget ?? ((value: T) => value as unknown as S);
+    // the value written to the target is echoed back by the Subject synchronously and by the signal effect asynchronously
+    let pushed: { value: S } | undefined = undefined;
+    const binding = connect(
+      target,
+      setValue,
+      pipe(
+        filter((value: S) => {
+          const echo = pushed !== undefined && Object.is(pushed.value, value);
+          pushed = undefined;
+          return !echo;
+        }),
+        map(fromTarget)
+      )
+    );
+    binding.write = (value: T) => {
+      const targetValue = toTarget(value);
+      pushed = { value: targetValue };
+      if (isSignal(target)) {
+        target.set(targetValue);
+      } else {
+        target.next(targetValue);
+      }
+    };
+    return bindableSignal;
+  };
+
+  const update = (updateFn: (value: T) => T) => {
+    // writing is the purpose of a two-way binding, the writesWhileBound option is not applied to it
+    const twoWayBound = bindings.some((binding) => binding.write !== undefined);
+    if (untracked(bound) && !twoWayBound) {
+      const writesWhileBound = options?.writesWhileBound ?? 'allow';
+      if (writesWhileBound === 'throw') {
+        throw new Error(
+          'Cannot write the BindableSignal while it is bound, the next value of the source would overwrite it. Call unbind() before writing it.'
+        );
+      } else if (writesWhileBound === 'warn') {
+        console.warn(
+          'The BindableSignal was written while it is bound, the next value of the source will overwrite it.'
+        );
+      } else if (writesWhileBound === 'queue-until-unbind') {
+        queuedWrites.push(updateFn);
+        return;
+      }
+    }
+    const value = updateFn(untracked(bindableSignal));
+    setSignal(value);
+    bindings
+      .filter((binding) => !binding.failed)
+      .forEach((binding) => binding.write?.(value));
+  };
+
+  const set = (value: T) => update(() => value);
+
+  return Object.assign(bindableSignal, {
+    set,
+    update,
+    bindTo,
+    rebind,
+    bindAll,
+    bindTwoWay,
+    unbind,
+    status: status.asReadonly(),
+    error: error.asReadonly(),
+    isBound: bound.asReadonly(),
+    hasValue: hasValue.asReadonly(),
+  }) as BindableSignal<T>;
+}
+
+type Binding<T> = {
+  terminate: () => void;
+  write?: (value: T) => void;
+  failed: boolean;
+  completed: boolean;
+};
+
+function toObservable<T>(
+  source: Exclude<BindableSource<T>, Signal<T>>
+): Observable<T> {
+  if (isObservable(source)) {
+    return source;
+  }
+  if (isAsyncIterable(source)) {
+    return fromAsyncIterable(source);
+  }
+  return from(source);
+}
+
+function transformWithOptions<S, T>(
+  options?: BindToOptions<S, T>
+): OperatorFunction<S, T> {
+  const distinct = options?.distinct ?? false;
+  return pipe(
+    map(options?.map ?? ((value: S) => value as unknown as T)),
+    filter(options?.filter ?? (() => true)),
+    distinct === false
+      ? pipe()
+      : distinctUntilChanged(distinct === true ? undefined : distinct),
+    options?.debounceMs !== undefined
+      ? debounceTime(options.debounceMs)
+      : pipe(),
+    options?.throttleMs !== undefined
+      ? throttleTime(options.throttleMs, asyncScheduler, {
+          leading: true,
+          trailing: true,
+        })
+      : pipe()
+  );
+}
+
+function repeatWithConfig<T>(config?: {
+  delayMs?: number;
+}): MonoTypeOperatorFunction<T> {
+  if (config === undefined) {
+    return pipe();
+  }
+  return repeat({ delay: config.delayMs });
+}
+
+function retryWithConfig<T>(
+  config?: BindableRetryConfig
+): MonoTypeOperatorFunction<T> {
+  if (config === undefined) {
+    return pipe();
+  }
+  const delay = config.delay;
+  if (delay === undefined) {
+    return retry(config.count);
+  }
+  return retry({
+    count: config.count,
+    delay: (_, retryCount) =>
+      timer(
+        config.backoff === 'exponential'
+          ? delay * Math.pow(2, retryCount - 1)
+          : delay
+      ),
+  });
+}
+
+function isAsyncIterable<T>(source: unknown): source is AsyncIterable<T> {
+  return (
+    typeof (source as AsyncIterable<T>)?.[Symbol.asyncIterator] === 'function'
+  );
 }
 
 function assertNoDestroyRefOrInjectorProvidedWithManualCleanup(options?: {
@@ -1,6 +1,11 @@
-import { of } from 'rxjs';
+import { fakeAsync, tick } from '@angular/core/testing';
+import { firstValueFrom, of } from 'rxjs';
 import { toArray } from 'rxjs/operators';
-import { lazyStartWith } from './custom-observables';
+import {
+  fromAsyncIterable,
+  fromIdleCallback,
+  lazyStartWith,
+} from './custom-observables';
 
 describe('lazyStartWith', () => {
   it('should emit the factory value before the source observable', (done) => {
@@ -75,3 +80,118 @@ describe('lazyStartWith', () => {
     });
   });
 });
+
+describe('fromIdleCallback', () => {
+  const originalRequestIdleCallback = globalThis.requestIdleCallback;
+  const originalCancelIdleCallback = globalThis.cancelIdleCallback;
+
+  afterEach(() => {
+    globalThis.requestIdleCallback = originalRequestIdleCallback;
+    globalThis.cancelIdleCallback = originalCancelIdleCallback;
+  });
+
+  it('should emit once and complete when the browser is idle', fakeAsync(() => {
+    // the real idle callback is not controlled by fakeAsync
+    globalThis.requestIdleCallback = jasmine
+      .createSpy('requestIdleCallback')
+      .and.callFake((callback: () => void) => setTimeout(callback, 50));
+    globalThis.cancelIdleCallback = (handle) => clearTimeout(handle);
+    const next = jasmine.createSpy('next');
+    const complete = jasmine.createSpy('complete');
+
+    fromIdleCallback(100).subscribe({ next, complete });
+
+    expect(globalThis.requestIdleCallback).toHaveBeenCalledWith(
+      jasmine.any(Function),
+      { timeout: 100 }
+    );
+    expect(next).not.toHaveBeenCalled();
+
+    tick(50);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(complete).toHaveBeenCalled();
+  }));
+
+  it('should fall back to a timeout if requestIdleCallback is not available', fakeAsync(() => {
+    (globalThis as { requestIdleCallback?: unknown }).requestIdleCallback =
+      undefined;
+    const next = jasmine.createSpy('next');
+
+    fromIdleCallback(100).subscribe(next);
+    tick(100);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  }));
+
+  it('should not emit after unsubscribe', fakeAsync(() => {
+    (globalThis as { requestIdleCallback?: unknown }).requestIdleCallback =
+      undefined;
+    const next = jasmine.createSpy('next');
+
+    fromIdleCallback(100).subscribe(next).unsubscribe();
+    tick(100);
+
+    expect(next).not.toHaveBeenCalled();
+  }));
+});
+
+describe('fromAsyncIterable', () => {
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  it('should emit the values of an async generator and complete', async () => {
+    async function* generate() {
+      yield 1;
+      yield 2;
+    }
+
+    const values = await firstValueFrom(
+      fromAsyncIterable(generate()).pipe(toArray())
+    );
+
+    expect(values).toEqual([1, 2]);
+  });
+
+  it('should run the finally block of an async generator once its pending value settled after unsubscribe', async () => {
+    let resolveValue: (value: number) => void = () => undefined;
+    const pendingValue = new Promise<number>(
+      (resolve) => (resolveValue = resolve)
+    );
+    let finalized = false;
+    async function* generate() {
+      try {
+        yield await pendingValue;
+      } finally {
+        finalized = true;
+      }
+    }
+    const next = jasmine.createSpy('next');
+
+    fromAsyncIterable(generate()).subscribe(next).unsubscribe();
+    await settle();
+
+    expect(finalized).toBeFalse();
+
+    resolveValue(1);
+    await settle();
+
+    expect(finalized).toBeTrue();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should call the return method of the iterator immediately on unsubscribe', () => {
+    const returnSpy = jasmine
+      .createSpy('return')
+      .and.returnValue(Promise.resolve({ done: true, value: undefined }));
+    const iterable: AsyncIterable<number> = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => new Promise<IteratorResult<number>>(() => undefined),
+        return: returnSpy,
+      }),
+    };
+
+    fromAsyncIterable(iterable).subscribe().unsubscribe();
+
+    expect(returnSpy).toHaveBeenCalled();
+  });
+});
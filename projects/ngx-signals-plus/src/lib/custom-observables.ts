@@ -10,3 +10,70 @@ export function lazyStartWith<T>(factory: () => T) {
   return (source: Observable<T>): Observable<T> =>
     defer(() => concat(of(factory()), source));
 }
+
+/**
+ * Same as the original rxjs from function with an AsyncIterable input, but the iterator's return method is called on unsubscribe.
+ * The rxjs implementation only stops the iteration when the next value arrives, this one calls return immediately, so a hand-written
+ * iterator can release its resources right away. An async generator queues the return until its pending next value settles,
+ * then runs its finally block, the settled value is not emitted.
+ *
+ * @param asyncIterable the source to iterate
+ * @returns
+ */
+export function fromAsyncIterable<T>(
+  asyncIterable: AsyncIterable<T>
+): Observable<T> {
+  return new Observable<T>((subscriber) => {
+    const iterator = asyncIterable[Symbol.asyncIterator]();
+    let done = false;
+    const pull = (): void => {
+      iterator.next().then(
+        (result) => {
+          if (subscriber.closed) {
+            return;
+          }
+          if (result.done) {
+            done = true;
+            subscriber.complete();
+          } else {
+            subscriber.next(result.value);
+            pull();
+          }
+        },
+        (err) => {
+          done = true;
+          subscriber.error(err);
+        }
+      );
+    };
+    pull();
+    return () => {
+      if (!done) {
+        done = true;
+        iterator.return?.()?.then(undefined, () => undefined);
+      }
+    };
+  });
+}
+
+/**
+ * Emits once and completes when the browser is idle, using requestIdleCallback.
+ * Falls back to a timeout where requestIdleCallback is not available (e.g. Safari). The callback is cancelled on unsubscribe.
+ *
+ * @param timeout the maximum time in milliseconds to wait for an idle period
+ * @returns
+ */
+export function fromIdleCallback(timeout?: number): Observable<void> {
+  return new Observable<void>((subscriber) => {
+    const callback = () => {
+      subscriber.next();
+      subscriber.complete();
+    };
+    if (typeof requestIdleCallback === 'function') {
+      const handle = requestIdleCallback(callback, { timeout });
+      return () => cancelIdleCallback(handle);
+    }
+    const handle = setTimeout(callback, timeout ?? 0);
+    return () => clearTimeout(handle);
+  });
+}
@@ -1,9 +1,14 @@
 import {
+  ApplicationRef,
   Component,
   ElementRef,
+  ErrorHandler,
   Injector,
+  NgZone,
+  PLATFORM_ID,
   Signal,
   WritableSignal,
+  effect,
   inject,
   signal,
   viewChild,
@@ -11,6 +16,7 @@ import {
 import {
   ComponentFixture,
   fakeAsync,
+  flushMicrotasks,
   TestBed,
   tick,
   waitForAsync,
@@ -542,6 +548,500 @@ describe('event-signal.ts', () => {
     }));
   });
 
+  describe('multiple targets and delegation', () => {
+    it('should get updates from every element of the target list', fakeAsync(() => {
+      const firstElement = document.createElement('div');
+      const secondElement = document.createElement('div');
+      const targets = signal<readonly ElementRef<HTMLElement>[]>([
+        new ElementRef(firstElement),
+        new ElementRef(secondElement),
+      ]);
+
+      const lazyEventSignal = createEventSignalLazily<Event, EventTarget>({
+        target: targets,
+        injector,
+        activate: true,
+        resultSelector: (_, target) => target,
+      });
+
+      firstElement.dispatchEvent(new Event(MOCK_EVENT_TYPE));
+
+      expect(lazyEventSignal()).toBe(firstElement);
+
+      secondElement.dispatchEvent(new Event(MOCK_EVENT_TYPE));
+
+      expect(lazyEventSignal()).toBe(secondElement);
+    }));
+
+    it('should only add and remove the listeners of the changed elements of the target list', fakeAsync(() => {
+      const keptElement = document.createElement('div');
+      const removedElement = document.createElement('div');
+      const addedElement = document.createElement('div');
+      spyOn(keptElement, 'addEventListener').and.callThrough();
+      spyOn(keptElement, 'removeEventListener').and.callThrough();
+      spyOn(removedElement, 'removeEventListener').and.callThrough();
+      const targets = signal<readonly ElementRef<HTMLElement>[]>([
+        new ElementRef(keptElement),
+        new ElementRef(removedElement),
+      ]);
+      fixture.detectChanges();
+      const lazyEventSignal = createEventSignalLazily({
+        target: targets,
+        injector,
+        activate: true,
+      });
+      tick();
+
+      targets.set([new ElementRef(keptElement), new ElementRef(addedElement)]);
+      tick();
+
+      expect(keptElement.addEventListener).toHaveBeenCalledTimes(1);
+      expect(keptElement.removeEventListener).not.toHaveBeenCalled();
+      expect(removedElement.removeEventListener).toHaveBeenCalledTimes(1);
+
+      const addedElementEvent = new Event(MOCK_EVENT_TYPE);
+      addedElement.dispatchEvent(addedElementEvent);
+      removedElement.dispatchEvent(new Event(MOCK_EVENT_TYPE));
+
+      expect(lazyEventSignal()).toBe(addedElementEvent);
+    }));
+
+    it('should start listening to the elements once the target list is set after the activator was attached', fakeAsync(() => {
+      const element = document.createElement('div');
+      const targets = signal<readonly ElementRef<HTMLElement>[]>([]);
+      fixture.detectChanges();
+      const lazyEventSignal = createEventSignalLazily({
+        target: targets,
+        injector,
+        activate: true,
+      });
+      tick();
+
+      targets.set([new ElementRef(element)]);
+      tick();
+      element.dispatchEvent(mockEvent);
+
+      expect(lazyEventSignal()).toBe(mockEvent);
+    }));
+
+    it('should only handle the events of the descendants matching the delegate selector', () => {
+      const container = document.createElement('div');
+      container.innerHTML =
+        '<div class="row"><button id="matching"><span></span></button></div><button id="ignored"></button>';
+      const tap = jasmine.createSpy('tap');
+      const lazyEventSignal = createEventSignalLazily<Event, string>({
+        target: container,
+        delegate: '.row button',
+        injector,
+        activate: true,
+        tap,
+        resultSelector: (_, target) => (target as HTMLElement).id,
+      });
+
+      container
+        .querySelector('span')!
+        .dispatchEvent(new Event(MOCK_EVENT_TYPE, { bubbles: true }));
+
+      expect(lazyEventSignal()).toBe('matching');
+
+      container
+        .querySelector('#ignored')!
+        .dispatchEvent(new Event(MOCK_EVENT_TYPE, { bubbles: true }));
+
+      expect(lazyEventSignal()).toBe('matching');
+      expect(tap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the matching ancestors of the target', () => {
+      const row = document.createElement('div');
+      row.className = 'row';
+      const container = document.createElement('div');
+      row.appendChild(container);
+      const lazyEventSignal = createEventSignalLazily({
+        target: container,
+        delegate: '.row',
+        injector,
+        activate: true,
+      });
+
+      container.dispatchEvent(new Event(MOCK_EVENT_TYPE));
+
+      expect(lazyEventSignal()).toBeUndefined();
+    });
+  });
+
+  describe('typed event names', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    it('should infer the type of the event from the event name', () => {
+      const mouseEventSignal = signalFromEvent('mousemove', {
+        target: element,
+        injector,
+        activate: true,
+        resultSelector: (event) => event.clientX,
+      });
+
+      element.dispatchEvent(new MouseEvent('mousemove', { clientX: 10 }));
+      const clientX: number | undefined = mouseEventSignal();
+
+      expect(clientX).toBe(10);
+    });
+
+    it('should infer the union of the event types from the event names', () => {
+      const eventSignal = signalFromEvent(['mousedown', 'keydown'], {
+        target: element,
+        injector,
+        activate: true,
+        resultSelector: (event) =>
+          event instanceof KeyboardEvent ? event.key : event.button,
+        initialValue: '',
+      });
+
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+      const value: string | number = eventSignal();
+
+      expect(value).toBe('Enter');
+    });
+
+    it('should infer the type of the event from the signal of the event names', () => {
+      const eventName = signal<'keydown' | 'keyup'>('keydown');
+      const eventSignal = signalFromEvent(eventName, {
+        target: element,
+        injector,
+        activate: true,
+      });
+
+      const keyboardEvent = new KeyboardEvent('keydown');
+      element.dispatchEvent(keyboardEvent);
+      const event: KeyboardEvent | undefined = eventSignal();
+
+      expect(event).toBe(keyboardEvent);
+    });
+  });
+
+  describe('global targets', () => {
+    it('should listen to the events of the window', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: 'window', activate: true })
+      );
+
+      window.dispatchEvent(mockEvent);
+      eventSignal.deactivate();
+
+      expect(eventSignal()).toBe(mockEvent);
+    });
+
+    it('should listen to the events of the document', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, {
+          target: 'document',
+          activate: true,
+        })
+      );
+
+      document.dispatchEvent(mockEvent);
+      eventSignal.deactivate();
+
+      expect(eventSignal()).toBe(mockEvent);
+    });
+
+    it('should listen to the events of the body', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: 'body', activate: true })
+      );
+
+      document.body.dispatchEvent(mockEvent);
+      eventSignal.deactivate();
+
+      expect(eventSignal()).toBe(mockEvent);
+    });
+
+    it('should not listen to the global target on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+      spyOn(window, 'addEventListener').and.callThrough();
+
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: 'window', activate: true })
+      );
+      window.dispatchEvent(mockEvent);
+
+      expect(window.addEventListener).not.toHaveBeenCalled();
+      expect(eventSignal()).toBeUndefined();
+    });
+  });
+
+  describe('server platform and hydration', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      spyOn(element, 'addEventListener').and.callThrough();
+    });
+
+    it('should be inert on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent<Event, string>(MOCK_EVENT_TYPE, {
+          target: element,
+          resultSelector: (event) => event.type,
+          initialValue: 'initialValue',
+          activate: true,
+        })
+      );
+      element.dispatchEvent(mockEvent);
+
+      expect(element.addEventListener).not.toHaveBeenCalled();
+      expect(eventSignal()).toBe('initialValue');
+      expect(() => eventSignal.deactivate()).not.toThrow();
+    });
+
+    it('should not inject the ElementRef on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      expect(() =>
+        TestBed.runInInjectionContext(() => signalFromEvent(MOCK_EVENT_TYPE))
+      ).not.toThrow();
+    });
+
+    it('should add the event listeners after the next render if activateAfterNextRender is true', () => {
+      const eventSignal = createEventSignalLazily({
+        target: element,
+        injector,
+        activate: true,
+        activateAfterNextRender: true,
+      });
+
+      element.dispatchEvent(new Event(MOCK_EVENT_TYPE));
+
+      expect(element.addEventListener).not.toHaveBeenCalled();
+      expect(eventSignal()).toBeUndefined();
+
+      TestBed.inject(ApplicationRef).tick();
+      element.dispatchEvent(mockEvent);
+
+      expect(eventSignal()).toBe(mockEvent);
+    });
+
+    it('should not add the event listeners after the next render if it was deactivated before', () => {
+      const eventSignal = createEventSignalLazily({
+        target: element,
+        injector,
+        activate: true,
+        activateAfterNextRender: true,
+      });
+
+      eventSignal.deactivate();
+      TestBed.inject(ApplicationRef).tick();
+
+      expect(element.addEventListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('state signals', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    it('should expose whether the activator is attached, the listeners are added and their target', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element })
+      );
+
+      expect(eventSignal.isActive()).toBeFalse();
+      expect(eventSignal.isListening()).toBeFalse();
+      expect(eventSignal.currentTarget()).toBeUndefined();
+
+      eventSignal.attachActivator(true);
+
+      expect(eventSignal.isActive()).toBeTrue();
+      expect(eventSignal.isListening()).toBeTrue();
+      expect(eventSignal.currentTarget()).toBe(element);
+
+      eventSignal.deactivate();
+
+      expect(eventSignal.isActive()).toBeFalse();
+      expect(eventSignal.isListening()).toBeFalse();
+      expect(eventSignal.currentTarget()).toBeUndefined();
+    });
+
+    it('should allow attaching and deactivating from an effect', () => {
+      const handleError = spyOn(TestBed.inject(ErrorHandler), 'handleError');
+      const enabled = signal(true);
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element })
+      );
+      TestBed.runInInjectionContext(() =>
+        effect(() =>
+          enabled()
+            ? eventSignal.attachActivator(true)
+            : eventSignal.deactivate()
+        )
+      );
+      TestBed.flushEffects();
+
+      expect(eventSignal.isListening()).toBeTrue();
+
+      enabled.set(false);
+      TestBed.flushEffects();
+
+      expect(handleError).not.toHaveBeenCalled();
+      expect(eventSignal.isActive()).toBeFalse();
+      expect(eventSignal.isListening()).toBeFalse();
+    });
+
+    it('should be active but not listening while the attached activator is false', () => {
+      const activator = signal(false);
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element })
+      );
+
+      eventSignal.attachActivator(activator);
+      TestBed.flushEffects();
+
+      expect(eventSignal.isActive()).toBeTrue();
+      expect(eventSignal.isListening()).toBeFalse();
+
+      activator.set(true);
+      TestBed.flushEffects();
+
+      expect(eventSignal.isListening()).toBeTrue();
+      expect(eventSignal.currentTarget()).toBe(element);
+    });
+
+    it('should expose the list of the targets for a target list', () => {
+      const secondElement = document.createElement('div');
+      const targets = signal<readonly ElementRef<HTMLElement>[]>([
+        new ElementRef(element),
+      ]);
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: targets, activate: true })
+      );
+
+      expect(eventSignal.currentTarget()).toEqual([element]);
+
+      targets.set([new ElementRef(element), new ElementRef(secondElement)]);
+      TestBed.flushEffects();
+
+      expect(eventSignal.currentTarget()).toEqual([element, secondElement]);
+    });
+
+    it('should never be active on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element, activate: true })
+      );
+
+      expect(eventSignal.isActive()).toBeFalse();
+      expect(eventSignal.isListening()).toBeFalse();
+      expect(eventSignal.currentTarget()).toBeUndefined();
+    });
+  });
+
+  describe('replaceActivator', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      spyOn(element, 'removeEventListener').and.callThrough();
+    });
+
+    it('should attach the activator if there is none attached', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element })
+      );
+
+      eventSignal.replaceActivator(true);
+      element.dispatchEvent(mockEvent);
+
+      expect(eventSignal.isActive()).toBeTrue();
+      expect(eventSignal()).toBe(mockEvent);
+    });
+
+    it('should keep the event listeners while the new activator is swapped in', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element, activate: true })
+      );
+
+      expect(() => eventSignal.replaceActivator(signal(true))).not.toThrow();
+
+      element.dispatchEvent(mockEvent);
+
+      expect(eventSignal()).toBe(mockEvent);
+
+      TestBed.flushEffects();
+
+      expect(element.removeEventListener).not.toHaveBeenCalled();
+      expect(eventSignal.isListening()).toBeTrue();
+    });
+
+    it('should remove the event listeners once the new activator is false', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element, activate: true })
+      );
+
+      eventSignal.replaceActivator(signal(false));
+      TestBed.flushEffects();
+      element.dispatchEvent(mockEvent);
+
+      expect(eventSignal.isActive()).toBeTrue();
+      expect(eventSignal.isListening()).toBeFalse();
+      expect(eventSignal()).toBeUndefined();
+    });
+
+    it('should not be controlled by the replaced activator anymore', () => {
+      const replacedActivator = new Subject<boolean>();
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, { target: element })
+      );
+      eventSignal.attachActivator(replacedActivator);
+      replacedActivator.next(true);
+
+      eventSignal.replaceActivator(of(true));
+      replacedActivator.next(false);
+
+      expect(eventSignal.isListening()).toBeTrue();
+      expect(replacedActivator.observed).toBeFalse();
+    });
+
+    it('should not drop the pending value of the rate limiting', fakeAsync(() => {
+      const eventSignal = createEventSignalLazily<Event, string>({
+        target: element,
+        injector,
+        activate: true,
+        debounce: 100,
+        resultSelector: (event) => event.type,
+      });
+
+      element.dispatchEvent(mockEvent);
+      eventSignal.replaceActivator(of(true));
+      tick(100);
+
+      expect(eventSignal()).toBe(MOCK_EVENT_TYPE);
+
+      eventSignal.deactivate();
+    }));
+  });
+
   describe('attachActivator/deactivate', () => {
     it('should only start getting updates once the activator was attached', () => {
       const componentNativeElement = fixture.nativeElement as HTMLElement;
@@ -782,4 +1282,519 @@ describe('event-signal.ts', () => {
       expect(() => eventSignal.attachActivator(activatorSignal)).toThrow();
     });
   });
+
+  describe('buffer', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    const dispatchEvents = (...types: string[]) =>
+      types.forEach((type) => element.dispatchEvent(new Event(type)));
+
+    it('should hold the last results up to the size of the buffer, oldest first', () => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent<Event, string>(['first', 'second', 'third', 'fourth'], {
+          target: element,
+          resultSelector: (event) => event.type,
+          buffer: { size: 3 },
+          activate: true,
+        })
+      );
+
+      expect(eventSignal()).toEqual([]);
+
+      dispatchEvents('first', 'second');
+
+      expect(eventSignal()).toEqual(['first', 'second']);
+
+      dispatchEvents('third', 'fourth', 'first');
+
+      expect(eventSignal()).toEqual(['third', 'fourth', 'first']);
+    });
+
+    it('should hold the events themselves without a resultSelector', () => {
+      const clicks = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          buffer: { size: 2 },
+          activate: true,
+        })
+      );
+      const click = new MouseEvent('click');
+
+      element.dispatchEvent(click);
+
+      expect(clicks()).toEqual([click]);
+    });
+
+    it('should drop the results older than timeMs', fakeAsync(() => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent<Event, string>(['first', 'second'], {
+          target: element,
+          resultSelector: (event) => event.type,
+          buffer: { timeMs: 100 },
+          activate: true,
+        })
+      );
+
+      dispatchEvents('first');
+      tick(50);
+      dispatchEvents('second');
+
+      expect(eventSignal()).toEqual(['first', 'second']);
+
+      tick(50);
+
+      expect(eventSignal()).toEqual(['second']);
+
+      tick(50);
+
+      expect(eventSignal()).toEqual([]);
+    }));
+
+    it('should clear the buffer on deactivate', fakeAsync(() => {
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent<Event, string>('first', {
+          target: element,
+          resultSelector: (event) => event.type,
+          buffer: { size: 5, timeMs: 100 },
+          activate: true,
+        })
+      );
+
+      dispatchEvents('first', 'first');
+      eventSignal.deactivate();
+
+      expect(eventSignal()).toEqual([]);
+
+      eventSignal.attachActivator(true);
+      dispatchEvents('first');
+      tick(100);
+
+      expect(eventSignal()).toEqual([]);
+    }));
+
+    it('should throw if neither the size nor the timeMs is provided', () => {
+      expect(() =>
+        TestBed.runInInjectionContext(() =>
+          signalFromEvent(MOCK_EVENT_TYPE, { target: element, buffer: {} })
+        )
+      ).toThrowError('The buffer option needs a size or a timeMs limit!');
+    });
+
+    it('should be an empty array on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      const eventSignal = TestBed.runInInjectionContext(() =>
+        signalFromEvent(MOCK_EVENT_TYPE, {
+          target: element,
+          buffer: { size: 3 },
+        })
+      );
+
+      expect(eventSignal()).toEqual([]);
+    });
+  });
+
+  describe('reducer and reset', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    it('should fold the events into the value with the reducer', () => {
+      const clickCount = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          reducer: (count) => count + 1,
+          initialValue: 0,
+          activate: true,
+        })
+      );
+
+      element.click();
+      element.click();
+      element.click();
+
+      expect(clickCount()).toBe(3);
+    });
+
+    it('should pass the accumulated value and the event to the reducer', () => {
+      const offset = TestBed.runInInjectionContext(() =>
+        signalFromEvent<MouseEvent, number>('mousemove', {
+          target: element,
+          reducer: (total, event) => total + event.movementX,
+          initialValue: 10,
+          activate: true,
+        })
+      );
+      const moveBy = (movementX: number) =>
+        element.dispatchEvent(
+          Object.assign(new MouseEvent('mousemove'), { movementX })
+        );
+
+      moveBy(5);
+      moveBy(-2);
+
+      expect(offset()).toBe(13);
+    });
+
+    it('should fold every event even if the writes are rate limited', fakeAsync(() => {
+      const clickCount = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          reducer: (count) => count + 1,
+          initialValue: 0,
+          throttle: 100,
+          activate: true,
+        })
+      );
+
+      element.click();
+      element.click();
+      element.click();
+
+      expect(clickCount()).toBe(1);
+
+      tick(100);
+
+      expect(clickCount()).toBe(3);
+
+      clickCount.deactivate();
+    }));
+
+    it('should restart the accumulation from the initial value on reset', () => {
+      const clickCount = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          reducer: (count) => count + 1,
+          initialValue: 0,
+          activate: true,
+        })
+      );
+
+      element.click();
+      element.click();
+      clickCount.reset();
+
+      expect(clickCount()).toBe(0);
+      expect(clickCount.isListening()).toBeTrue();
+
+      element.click();
+
+      expect(clickCount()).toBe(1);
+    });
+
+    it('should write the initial value on reset without a reducer', () => {
+      const eventType = TestBed.runInInjectionContext(() =>
+        signalFromEvent<Event, string>(MOCK_EVENT_TYPE, {
+          target: element,
+          resultSelector: (event) => event.type,
+          initialValue: 'initialValue',
+          activate: true,
+        })
+      );
+
+      element.dispatchEvent(mockEvent);
+      eventType.reset();
+
+      expect(eventType()).toBe('initialValue');
+    });
+
+    it('should clear the buffer on reset', () => {
+      const clicks = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          buffer: { size: 3 },
+          activate: true,
+        })
+      );
+
+      element.click();
+      clicks.reset();
+
+      expect(clicks()).toEqual([]);
+    });
+
+    it('should drop the pending value of the rate limiting on reset', fakeAsync(() => {
+      const clickCount = TestBed.runInInjectionContext(() =>
+        signalFromEvent('click', {
+          target: element,
+          reducer: (count) => count + 1,
+          initialValue: 0,
+          debounce: 100,
+          activate: true,
+        })
+      );
+
+      element.click();
+      clickCount.reset();
+      tick(100);
+
+      expect(clickCount()).toBe(0);
+
+      clickCount.deactivate();
+    }));
+  });
+
+  describe('rate limiting', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+    });
+
+    const dispatchEvents = (...types: string[]) =>
+      types.forEach((type) => element.dispatchEvent(new Event(type)));
+
+    const createRateLimitedEventSignal = (
+      options: Pick<
+        SignalFromEventOptions<Event, string>,
+        'throttle' | 'debounce' | 'schedule' | 'tap'
+      >
+    ) =>
+      createEventSignalLazily<Event, string>({
+        type: ['first', 'second', 'third'],
+        target: element,
+        injector,
+        activate: true,
+        resultSelector: (event) => event.type,
+        ...options,
+      });
+
+    it('should write the first value then the latest value per throttle time', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ throttle: 100 });
+
+      dispatchEvents('first', 'second', 'third');
+
+      expect(eventSignal()).toBe('first');
+
+      tick(100);
+
+      expect(eventSignal()).toBe('third');
+
+      eventSignal.deactivate();
+    }));
+
+    it('should write the latest value after the debounce time has passed without another event', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ debounce: 100 });
+
+      dispatchEvents('first', 'second');
+      tick(50);
+      dispatchEvents('third');
+      tick(50);
+
+      expect(eventSignal()).toBeUndefined();
+
+      tick(50);
+
+      expect(eventSignal()).toBe('third');
+    }));
+
+    it('should write the latest value in a microtask', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({
+        schedule: 'microtask',
+      });
+
+      dispatchEvents('first', 'second');
+
+      expect(eventSignal()).toBeUndefined();
+
+      flushMicrotasks();
+
+      expect(eventSignal()).toBe('second');
+    }));
+
+    it('should write the latest value once per animation frame', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ schedule: 'raf' });
+
+      dispatchEvents('first', 'second');
+
+      expect(eventSignal()).toBeUndefined();
+
+      tick(16);
+
+      expect(eventSignal()).toBe('second');
+    }));
+
+    it('should write the latest value when the browser is idle', fakeAsync(() => {
+      // the real idle callback is not controlled by fakeAsync, the timeout fallback is used instead
+      const originalRequestIdleCallback = globalThis.requestIdleCallback;
+      (globalThis as { requestIdleCallback?: unknown }).requestIdleCallback =
+        undefined;
+      const eventSignal = createRateLimitedEventSignal({ schedule: 'idle' });
+
+      dispatchEvents('first', 'second');
+
+      expect(eventSignal()).toBeUndefined();
+
+      tick();
+
+      expect(eventSignal()).toBe('second');
+
+      globalThis.requestIdleCallback = originalRequestIdleCallback;
+    }));
+
+    it('should call the tap function on every event', fakeAsync(() => {
+      const tap = jasmine.createSpy('tap');
+      createRateLimitedEventSignal({ debounce: 100, tap });
+
+      dispatchEvents('first', 'second', 'third');
+      tick(100);
+
+      expect(tap).toHaveBeenCalledTimes(3);
+    }));
+
+    it('should drop the pending value on deactivate', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ debounce: 100 });
+
+      dispatchEvents('first');
+      eventSignal.deactivate();
+      tick(100);
+
+      expect(eventSignal()).toBeUndefined();
+    }));
+
+    it('should write the values again after reactivating', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ debounce: 100 });
+      dispatchEvents('first');
+      eventSignal.deactivate();
+
+      eventSignal.attachActivator(true);
+      dispatchEvents('second');
+      tick(100);
+
+      expect(eventSignal()).toBe('second');
+    }));
+
+    it('should drop the pending value on destroy', fakeAsync(() => {
+      const eventSignal = createRateLimitedEventSignal({ debounce: 100 });
+
+      dispatchEvents('first');
+      fixture.destroy();
+      tick(100);
+
+      expect(eventSignal()).toBeUndefined();
+    }));
+
+    it('should throw if more than one rate limiting option is provided', () => {
+      expect(() =>
+        createRateLimitedEventSignal({ throttle: 100, debounce: 100 })
+      ).toThrow();
+    });
+  });
+
+  describe('runOutsideAngular', () => {
+    let element: HTMLElement;
+    let zone: NgZone;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      zone = TestBed.inject(NgZone);
+    });
+
+    const createEventSignalOutsideAngular = (
+      options?: Pick<
+        SignalFromEventOptions<Event, string>,
+        'reenterZoneWhen' | 'tap'
+      >
+    ) =>
+      zone.run(() =>
+        createEventSignalLazily<Event, string>({
+          type: ['first', 'second'],
+          target: element,
+          injector,
+          activate: true,
+          resultSelector: (event) => event.type,
+          runOutsideAngular: true,
+          ...options,
+        })
+      );
+
+    const dispatchEventOutsideAngular = (type: string) =>
+      zone.runOutsideAngular(() => element.dispatchEvent(new Event(type)));
+
+    it('should add the event listeners outside of the NgZone', () => {
+      const addedInAngularZone: boolean[] = [];
+      spyOn(element, 'addEventListener').and.callFake(() =>
+        addedInAngularZone.push(NgZone.isInAngularZone())
+      );
+
+      createEventSignalOutsideAngular();
+
+      expect(addedInAngularZone).toEqual([false, false]);
+    });
+
+    it('should write the signal inside the NgZone only if the value changes', () => {
+      const tap = jasmine.createSpy('tap');
+      const eventSignal = createEventSignalOutsideAngular({ tap });
+      const zoneRunSpy = spyOn(zone, 'run').and.callThrough();
+
+      dispatchEventOutsideAngular('first');
+
+      expect(eventSignal()).toBe('first');
+      expect(zoneRunSpy).toHaveBeenCalled();
+
+      zoneRunSpy.calls.reset();
+      dispatchEventOutsideAngular('first');
+
+      expect(zoneRunSpy).not.toHaveBeenCalled();
+      expect(tap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should call the tap function outside of the NgZone', () => {
+      let tappedInAngularZone: boolean | undefined = undefined;
+      createEventSignalOutsideAngular({
+        tap: () => (tappedInAngularZone = NgZone.isInAngularZone()),
+      });
+
+      dispatchEventOutsideAngular('first');
+
+      expect(tappedInAngularZone).toBeFalse();
+    });
+
+    it('should reenter the NgZone when the reenterZoneWhen predicate returns true', () => {
+      const eventSignal = createEventSignalOutsideAngular({
+        reenterZoneWhen: (event) => event.type === 'second',
+      });
+      const zoneRunSpy = spyOn(zone, 'run').and.callThrough();
+
+      dispatchEventOutsideAngular('first');
+
+      expect(eventSignal()).toBe('first');
+      expect(zoneRunSpy).not.toHaveBeenCalled();
+
+      dispatchEventOutsideAngular('second');
+
+      expect(eventSignal()).toBe('second');
+      expect(zoneRunSpy).toHaveBeenCalled();
+    });
+
+    it('should compare the results of the buffer instead of the arrays', () => {
+      const eventSignal = zone.run(() =>
+        TestBed.runInInjectionContext(() =>
+          signalFromEvent<Event, string>('first', {
+            target: element,
+            resultSelector: (event) => event.type,
+            buffer: { size: 1 },
+            runOutsideAngular: true,
+            activate: true,
+          })
+        )
+      );
+      dispatchEventOutsideAngular('first');
+      const zoneRunSpy = spyOn(zone, 'run').and.callThrough();
+
+      dispatchEventOutsideAngular('first');
+
+      expect(eventSignal()).toEqual(['first']);
+      expect(zoneRunSpy).not.toHaveBeenCalled();
+    });
+  });
 });
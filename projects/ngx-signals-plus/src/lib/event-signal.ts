@@ -1,4 +1,5 @@
 import {
+  afterNextRender,
   DestroyRef,
   effect,
   EffectRef,
@@ -6,49 +7,128 @@ import {
   inject,
   Injector,
   isSignal,
+  NgZone,
+  PLATFORM_ID,
   signal,
   Signal,
+  untracked,
   VERSION,
+  WritableSignal,
 } from '@angular/core';
+import { DOCUMENT, isPlatformServer } from '@angular/common';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { Observable, Subscription, throttleTime } from 'rxjs';
+import {
+  animationFrameScheduler,
+  asapScheduler,
+  debounceTime,
+  MonoTypeOperatorFunction,
+  Observable,
+  Subscription,
+  throttle,
+  throttleTime,
+} from 'rxjs';
 import { HasEventTargetAddRemove } from 'rxjs/internal/observable/fromEvent';
 import { asyncScheduler } from 'rxjs/internal/scheduler/async';
 import { Subject } from 'rxjs/internal/Subject';
+import { fromIdleCallback } from './custom-observables';
 
 export type EventSignal<T> = Signal<T> & {
   attachActivator: (
     activator: true | Signal<boolean> | Observable<boolean>
   ) => void;
   deactivate: () => void;
+  reset: () => void;
+  replaceActivator: (
+    activator: true | Signal<boolean> | Observable<boolean>
+  ) => void;
+  isActive: Signal<boolean>;
+  isListening: Signal<boolean>;
+  currentTarget: Signal<EventTarget | readonly EventTarget[] | undefined>;
+};
+
+type EventBuffer<R> = {
+  push: (value: R, time: number) => R[];
+  prune: (time: number) => R[];
+  expiresIn: (time: number) => number | undefined;
+  clear: () => void;
 };
 
+type EventValue<T, R> = {
+  event: T;
+  value: R;
+};
+
+type ListenerTarget<T> =
+  | ElementRef<HasEventTargetAddRemove<T>>
+  | readonly ElementRef<HasEventTargetAddRemove<T>>[]
+  | undefined;
+
 type Listener<T> = {
   listening: boolean;
-  target: Signal<ElementRef<HasEventTargetAddRemove<T>> | undefined>;
+  target: Signal<ListenerTarget<T>>;
+  attachedTargets: HasEventTargetAddRemove<T>[];
+  attachedEventName?: string | string[];
   eventName: Signal<string | string[]>;
   eventListener: (event: T) => void;
   options?: EventListenerOptions;
+  zone?: NgZone;
+  listeningState: WritableSignal<boolean>;
+  currentTargetState: WritableSignal<
+    EventTarget | readonly EventTarget[] | undefined
+  >;
+};
+
+/**
+ * The global targets resolved via the DOCUMENT injection token, they do not need the ElementRef of a component.
+ */
+export type SignalFromEventGlobalTarget = 'window' | 'document' | 'body';
+
+/**
+ * Keeps the last results instead of the last one: at most size of them, and only the ones written in the last timeMs milliseconds.
+ */
+export type SignalFromEventBufferOptions = {
+  size?: number;
+  timeMs?: number;
 };
 
 export type SignalFromEventOptions<T extends Event, R = never> = {
   target?:
+    | SignalFromEventGlobalTarget
     | HasEventTargetAddRemove<T>
-    | Signal<ElementRef<HasEventTargetAddRemove<T>> | undefined>;
+    | Signal<ElementRef<HasEventTargetAddRemove<T>> | undefined>
+    | Signal<readonly ElementRef<HasEventTargetAddRemove<T>>[]>;
+  delegate?: string;
   eventListenerOptions?: AddEventListenerOptions;
   tap?: (event: T) => void;
-  resultSelector?: (event: T) => R;
+  resultSelector?: (event: T, target: EventTarget) => R;
   initialValue?: R;
   activate?: boolean;
   injector?: Injector;
+  throttle?: number;
+  debounce?: number;
+  schedule?: 'raf' | 'microtask' | 'idle';
+  runOutsideAngular?: boolean;
+  reenterZoneWhen?: (event: T) => boolean;
+  activateAfterNextRender?: boolean;
+  buffer?: SignalFromEventBufferOptions;
 };
 
+/**
+ * The events of the elements, the window and the document by their names, used to infer the type of the event from its name.
+ */
+export type SignalFromEventMap = HTMLElementEventMap &
+  WindowEventMap &
+  DocumentEventMap;
+
+export type SignalFromEventName = keyof SignalFromEventMap;
+
 /**
  * Creates an `EventSignal` based on DOM events, similar to the `fromEvent` function from NgRx,
  * but returns a `Signal` with enhanced capabilities, including dynamic event management and
  * activation controls for better performance and usability.
  *
- * @template T The type of the DOM event.
+ * @template T The type of the DOM event. Inferred from the event name(s) if they are known events of the elements, the window or the document,
+ *           multiple event names result in the union of their event types.
  * @template R The transformed result type of the event, defaulting to `T`. If provided options.resultSelector has to defined.
  *
  * @param {string | string[] | Signal<string | string[]>} eventName
@@ -60,18 +140,57 @@ export type SignalFromEventOptions<T extends Event, R = never> = {
  *
  * - **target**: Specifies the event target. Supports a `HasEventTargetAddRemove<T>`, a `Signal` resolving
  *   to an `ElementRef` containing the target, or is inferred from the ElementRef of the component automatically when undefined.
+ *   The 'window', 'document' and 'body' global targets are resolved via the DOCUMENT injection token, so they can be used in services
+ *   without an ElementRef. On the server they are never listened to.
+ *   A `Signal` of an `ElementRef` list (e.g. the result of `viewChildren()`) listens to every element of the list, the listeners
+ *   are only added to the new elements and removed from the missing ones when the list changes.
+ * - **delegate**: A CSS selector to delegate the events of the descendants to the target. Only the events whose target has
+ *   a closest ancestor matching the selector within the target are handled, the others are ignored (the tap function is not called).
  * - **eventListenerOptions**: The options for the underlying `addEventListener` call.
  * - **tap**: A function invoked on every event, allowing side effects without modifying the result.
  * - **resultSelector**: A transformation function that maps the event to the desired output type `R`. If not provided, the event itself is returned (default behavior).
- * - **initialValue**: An initial value for the signal before any events occur. Can only be provided with a resultSelector since giving initial value to an event is not useful.
+ *   It also receives the element matched by the delegate selector, or the target the listener was added to.
+ * - **reducer**: Folds the events into the value instead of mapping them independently, it receives the current accumulated value and the event.
+ *   The initialValue is required as the first accumulated value, the resultSelector can not be provided with it. With rate limiting every event
+ *   is still folded, only the writes of the accumulated value are coalesced.
+ * - **initialValue**: An initial value for the signal before any events occur. Can only be provided with a resultSelector or a reducer since giving initial value to an event is not useful.
  * - **activate**: A flag indicating whether the signal should be activated immediately.
  * - **injector**: Specifies a custom dependency injector, defaulting to the current injector. Also used to call the function outside of the injection context.
+ * - **throttle**: Writes the first value then at most one value (the latest) per the given milliseconds.
+ * - **debounce**: Writes the latest value after the given milliseconds have passed without another event.
+ * - **schedule**: Writes the latest value once per animation frame ('raf'), microtask or idle period ('idle', falling back to a timeout).
+ *   Only one of the throttle, debounce and schedule options can be provided. The tap function and the resultSelector are still called
+ *   on every event, only the writes of the signal are coalesced. The pending value is dropped on deactivate and destroy.
+ * - **runOutsideAngular**: Adds the event listeners outside of the NgZone, so the events do not trigger change detection by themselves.
+ *   The signal is written inside the NgZone only if its value changes, the tap function is always called outside of it.
+ * - **reenterZoneWhen**: Decides by the event whether the signal is written inside the NgZone instead of comparing the values.
+ *   Only used with runOutsideAngular. With rate limiting it is called with the event of the written value.
+ * - **activateAfterNextRender**: Defers adding the event listeners of the attached activator until the next render, e.g. until the
+ *   hydration of the server rendered DOM is finished and the target elements are the final ones.
+ * - **buffer**: The signal holds the array of the last results (oldest first) instead of the last one. At least one of the size and timeMs
+ *   limits has to be provided: the oldest result is dropped once there are size of them, and the results are dropped timeMs milliseconds
+ *   after they were written. Every write copies the array once, the array is cleared on deactivate. Can not be provided with an initialValue.
+ *   With runOutsideAngular the arrays are compared by their results, but a new result changes the array almost always, so every buffered
+ *   event reenters the NgZone unless reenterZoneWhen decides otherwise.
+ *
+ * On the server the EventSignal is inert: no event listener is added, the signal keeps the initial value and the
+ * attachActivator, deactivate and replaceActivator methods do nothing. The target is not resolved either, so no ElementRef is injected.
  *
  * @returns {EventSignal<R | undefined>}
  * Returns an `EventSignal` with additional methods:
  * - **attachActivator**: Attaches an activator to control the event listener's lifecycle.
  *   Accepts `true`, a `Signal<boolean>`, or an `Observable<boolean>`. Deactivating removes the event listener.
  * - **deactivate**: Deactivates the event signal, removing the associated event listeners.
+ * - **reset**: Writes the initial value (or the empty array of the buffer) again and restarts the accumulation of the reducer from it.
+ *   The pending value of the rate limiting is dropped, the activation is not changed. A state kept by the resultSelector between the events is not
+ *   known by the EventSignal, so it has to be cleared by the caller, otherwise the next event may write it again.
+ * - **replaceActivator**: Replaces the attached activator (or attaches one if there is none) without deactivating the event signal.
+ *   The event listeners are kept until the new activator turns them off, so no event is missed while swapping, and the pending
+ *   value of the rate limiting is not dropped either.
+ * - **isActive**: A `Signal` that is true while an activator is attached, even if the activator currently turns the listeners off.
+ * - **isListening**: A `Signal` that is true while the event listeners are added.
+ * - **currentTarget**: A `Signal` of the target the event listeners are added to, the list of the targets for a list target,
+ *   or undefined while not listening.
  *
  * ### Features:
  * - **Signal-Based Targets**: Dynamically attach or detach listeners based on the truthiness of a `Signal`.
@@ -83,9 +202,10 @@ export type SignalFromEventOptions<T extends Event, R = never> = {
  * Getting the mouse's position while moving the mouse over a child element:
  *
  * ```typescript
- * const mousePosition = signalFromEvent<MouseEvent, { x: number, y: number }>('mousemove', {
+ * const mousePosition = signalFromEvent('mousemove', {
  *   target: viewChild(...),
  *   resultSelector: (event) => ({ x: event.clientX, y: event.clientY }),
+ *   initialValue: { x: 0, y: 0 },
  *   activate: true,
  * });
  *
@@ -97,45 +217,110 @@ export type SignalFromEventOptions<T extends Event, R = never> = {
  *
  * For more details, refer to the **[documentation or article](https://medium.com/p/8138c57353d6)**.
  */
+export function signalFromEvent<K extends SignalFromEventName>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options?: SignalFromEventOptions<SignalFromEventMap[K]> & { buffer?: never }
+): EventSignal<SignalFromEventMap[K] | undefined>;
+export function signalFromEvent<K extends SignalFromEventName, R>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options: SignalFromEventOptions<SignalFromEventMap[K], R> & {
+    resultSelector: (event: SignalFromEventMap[K], target: EventTarget) => R;
+  } & { initialValue?: never; buffer?: never }
+): EventSignal<R | undefined>;
+export function signalFromEvent<K extends SignalFromEventName, R>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options: SignalFromEventOptions<SignalFromEventMap[K], R> & {
+    resultSelector: (event: SignalFromEventMap[K], target: EventTarget) => R;
+  } & { initialValue: R; buffer?: never }
+): EventSignal<R>;
+export function signalFromEvent<K extends SignalFromEventName>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options: SignalFromEventOptions<SignalFromEventMap[K]> & {
+    buffer: SignalFromEventBufferOptions;
+  }
+): EventSignal<SignalFromEventMap[K][]>;
+export function signalFromEvent<K extends SignalFromEventName, R>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options: SignalFromEventOptions<SignalFromEventMap[K], R> & {
+    resultSelector: (event: SignalFromEventMap[K], target: EventTarget) => R;
+  } & { initialValue?: never; buffer: SignalFromEventBufferOptions }
+): EventSignal<R[]>;
+export function signalFromEvent<K extends SignalFromEventName, R>(
+  eventName: K | K[] | Signal<K | K[]>,
+  options: SignalFromEventOptions<SignalFromEventMap[K], R> & {
+    reducer: (accumulator: R, event: SignalFromEventMap[K]) => R;
+  } & { initialValue: R; resultSelector?: never; buffer?: never }
+): EventSignal<R>;
 export function signalFromEvent<T extends Event>(
   eventName: string | string[] | Signal<string | string[]>,
-  options?: SignalFromEventOptions<T>
+  options?: SignalFromEventOptions<T> & { buffer?: never }
 ): EventSignal<T | undefined>;
 export function signalFromEvent<T extends Event, R>(
   eventName: string | string[] | Signal<string | string[]>,
   options: SignalFromEventOptions<T, R> & {
-    resultSelector: (event: T) => R;
-  } & { initialValue?: never }
+    resultSelector: (event: T, target: EventTarget) => R;
+  } & { initialValue?: never; buffer?: never }
 ): EventSignal<R | undefined>;
 export function signalFromEvent<T extends Event, R>(
   eventName: string | string[] | Signal<string | string[]>,
   options: SignalFromEventOptions<T, R> & {
-    resultSelector: (event: T) => R;
-  } & { initialValue: R }
+    resultSelector: (event: T, target: EventTarget) => R;
+  } & { initialValue: R; buffer?: never }
+): EventSignal<R>;
+export function signalFromEvent<T extends Event>(
+  eventName: string | string[] | Signal<string | string[]>,
+  options: SignalFromEventOptions<T> & { buffer: SignalFromEventBufferOptions }
+): EventSignal<T[]>;
+export function signalFromEvent<T extends Event, R>(
+  eventName: string | string[] | Signal<string | string[]>,
+  options: SignalFromEventOptions<T, R> & {
+    resultSelector: (event: T, target: EventTarget) => R;
+  } & { initialValue?: never; buffer: SignalFromEventBufferOptions }
+): EventSignal<R[]>;
+export function signalFromEvent<T extends Event, R>(
+  eventName: string | string[] | Signal<string | string[]>,
+  options: SignalFromEventOptions<T, R> & {
+    reducer: (accumulator: R, event: T) => R;
+  } & { initialValue: R; resultSelector?: never; buffer?: never }
 ): EventSignal<R>;
 
 export function signalFromEvent<T extends Event, R = T>(
   eventName: string | string[] | Signal<string | string[]>,
-  options?: SignalFromEventOptions<T, R>
+  options?: SignalFromEventOptions<T, R> & {
+    reducer?: (accumulator: R, event: T) => R;
+  }
 ): EventSignal<R | undefined> {
   const injector = options?.injector ?? inject(Injector);
+  if (isPlatformServer(injector.get(PLATFORM_ID))) {
+    return createInertEventSignal(
+      options?.buffer !== undefined
+        ? ([] as unknown as R) // with a buffer R[] is returned
+        : options?.initialValue
+    );
+  }
   const destroyRef = injector.get(DestroyRef);
 
   const optionsTarget = options?.target;
-  const listenerTarget: Signal<
-    ElementRef<HasEventTargetAddRemove<T>> | undefined
-  > =
+  const listenerTarget: Signal<ListenerTarget<T>> =
     optionsTarget === undefined
       ? signal(
           injector.get(ElementRef<HasEventTargetAddRemove<T>>)
         ).asReadonly()
+      : typeof optionsTarget === 'string'
+      ? signal(resolveGlobalTarget<T>(optionsTarget, injector)).asReadonly()
       : isSignal(optionsTarget)
       ? optionsTarget
       : signal({ nativeElement: optionsTarget } as ElementRef).asReadonly();
 
   const eventNameSignal = isSignal(eventName) ? eventName : signal(eventName);
 
-  const eventSignal = signal<R | undefined>(options?.initialValue);
+  const buffer =
+    options?.buffer !== undefined
+      ? createEventBuffer<R>(options.buffer)
+      : undefined;
+  const eventSignal = signal<R | R[] | undefined>(
+    buffer !== undefined ? [] : options?.initialValue
+  );
 
   const resultSelector =
     options?.resultSelector ??
@@ -143,20 +328,127 @@ export function signalFromEvent<T extends Event, R = T>(
       return value as unknown as R; // if resultSelector is not defined, R has to be T
     });
 
+  const zone =
+    options?.runOutsideAngular === true ? injector.get(NgZone) : undefined;
+  let expirationTimeoutId: ReturnType<typeof setTimeout> | undefined =
+    undefined;
+  const scheduleExpiration = () => {
+    if (buffer === undefined) {
+      return;
+    }
+    clearTimeout(expirationTimeoutId);
+    const expiresIn = buffer.expiresIn(Date.now());
+    if (expiresIn === undefined) {
+      return;
+    }
+    const expire = () => {
+      const values = buffer.prune(Date.now());
+      zone !== undefined
+        ? zone.run(() => eventSignal.set(values))
+        : eventSignal.set(values);
+      scheduleExpiration();
+    };
+    expirationTimeoutId =
+      zone !== undefined
+        ? zone.runOutsideAngular(() => setTimeout(expire, expiresIn))
+        : setTimeout(expire, expiresIn);
+  };
+  const clearBuffer = () => {
+    if (buffer !== undefined) {
+      clearTimeout(expirationTimeoutId);
+      buffer.clear();
+      untracked(() => eventSignal.set([]));
+    }
+  };
+
+  const setEventSignal = ({ event, value }: EventValue<T, R>) => {
+    const nextValue =
+      buffer !== undefined ? buffer.push(value, Date.now()) : value;
+    if (zone === undefined || NgZone.isInAngularZone()) {
+      eventSignal.set(nextValue);
+    } else {
+      const reenterZone =
+        options?.reenterZoneWhen?.(event) ??
+        !isSameValue(nextValue, untracked(eventSignal), buffer !== undefined);
+      if (reenterZone) {
+        zone.run(() => eventSignal.set(nextValue));
+      } else {
+        eventSignal.set(nextValue);
+      }
+    }
+    scheduleExpiration();
+  };
+
+  const rateLimiter = createRateLimiter<EventValue<T, R>>(options);
+  let pendingValues: Subject<EventValue<T, R>> | undefined = undefined;
+  let pendingValuesSubscription: Subscription | undefined = undefined;
+  const writeValue = (eventValue: EventValue<T, R>) => {
+    if (rateLimiter === undefined) {
+      setEventSignal(eventValue);
+      return;
+    }
+    if (pendingValues === undefined) {
+      pendingValues = new Subject<EventValue<T, R>>();
+      pendingValuesSubscription = pendingValues
+        .pipe(rateLimiter)
+        .subscribe(setEventSignal);
+    }
+    pendingValues.next(eventValue);
+  };
+  const dropPendingValue = () => {
+    // unsubscribing instead of completing, the rate limiting operators would emit the pending value on complete
+    pendingValuesSubscription?.unsubscribe();
+    pendingValuesSubscription = undefined;
+    pendingValues = undefined;
+  };
+
+  let accumulator = options?.initialValue as R;
   const eventListener: (event: T) => void = (event: T) => {
+    const target =
+      options?.delegate !== undefined
+        ? findDelegateTarget(event, options.delegate)
+        : event.currentTarget;
+    if (target === null) {
+      return;
+    }
     if (options?.tap !== undefined) {
       options.tap(event);
     }
-    eventSignal.set(resultSelector(event));
+    // every event is folded into the accumulator, even if its write is coalesced by the rate limiting
+    const value =
+      options?.reducer !== undefined
+        ? (accumulator = options.reducer(accumulator, event))
+        : resultSelector(event, target);
+    writeValue({ event, value });
+  };
+
+  const reset = () => {
+    dropPendingValue();
+    accumulator = options?.initialValue as R;
+    if (buffer !== undefined) {
+      clearBuffer();
+    } else {
+      eventSignal.set(options?.initialValue);
+    }
   };
 
   let activatorAttached = false;
+  const isActive = signal(false);
+  // the methods can be called from an effect or a computed, the state signals are written untracked to allow it
+  const setActivatorAttached = (attached: boolean) => {
+    activatorAttached = attached;
+    untracked(() => isActive.set(attached));
+  };
   let listener: Listener<T> = {
     listening: false,
     target: listenerTarget,
+    attachedTargets: [],
     eventName: eventNameSignal,
     eventListener,
     options: options?.eventListenerOptions,
+    zone,
+    listeningState: signal(false),
+    currentTargetState: signal(undefined),
   };
 
   let effectRef: EffectRef | undefined = undefined;
@@ -175,7 +467,9 @@ export function signalFromEvent<T extends Event, R = T>(
   let deactivate: () => void = () => {
     terminateUpdaters();
     removeEventListenerFromTarget(listener);
-    activatorAttached = false;
+    dropPendingValue();
+    clearBuffer();
+    setActivatorAttached(false);
     activatorProxy = undefined;
   };
 
@@ -195,9 +489,7 @@ export function signalFromEvent<T extends Event, R = T>(
       }
     });
 
-  let previousListenerTarget:
-    | ElementRef<HasEventTargetAddRemove<T>>
-    | undefined = listenerTarget();
+  let previousListenerTarget: ListenerTarget<T> = listenerTarget();
   const listenerChangeEffectRef = effect(
     () => {
       const listenerTargetValue = listenerTarget();
@@ -208,18 +500,26 @@ export function signalFromEvent<T extends Event, R = T>(
         return;
       }
       if (listenerTargetValue !== undefined) {
-        if (previousListenerTarget?.nativeElement !== undefined) {
-          removeEventListenerFromTarget(listener, {
-            target: previousListenerTarget.nativeElement,
-          });
+        if (
+          listener.listening &&
+          listener.attachedEventName === untracked(eventNameSignal)
+        ) {
+          // the listeners of the elements kept in the target list are not removed and added again
+          untracked(() => updateEventListenerTargets(listener));
+        } else {
+          removeEventListenerFromTarget(listener);
+          activateProxySource.next();
         }
-        activateProxySource.next();
       } else {
         listener.listening = false;
+        listener.attachedTargets = [];
+        updateListenerState(listener);
       }
       previousListenerTarget = listenerTargetValue;
     },
-    { injector }
+    parseInt(VERSION.major) < 19
+      ? { injector, allowSignalWrites: true }
+      : { injector }
   );
 
   let previousEventName = eventNameSignal();
@@ -227,14 +527,14 @@ export function signalFromEvent<T extends Event, R = T>(
     () => {
       const eventName = eventNameSignal();
       if (eventName !== previousEventName) {
-        removeEventListenerFromTarget(listener, {
-          eventName: previousEventName,
-        });
+        removeEventListenerFromTarget(listener);
         activateProxySource.next();
         previousEventName = eventName;
       }
     },
-    { injector }
+    parseInt(VERSION.major) < 19
+      ? { injector, allowSignalWrites: true }
+      : { injector }
   );
 
   destroyRef.onDestroy(() => {
@@ -243,6 +543,20 @@ export function signalFromEvent<T extends Event, R = T>(
     eventNameChangeEffectRef.destroy();
   });
 
+  let rendered = options?.activateAfterNextRender !== true;
+  if (!rendered) {
+    afterNextRender(
+      () => {
+        rendered = true;
+        if (activatorProxy !== undefined) {
+          activatorAttached = false;
+          attachActivator(activatorProxy);
+        }
+      },
+      { injector }
+    );
+  }
+
   const attachActivator = (
     activator: true | Signal<boolean> | Observable<boolean>
   ) => {
@@ -254,10 +568,10 @@ export function signalFromEvent<T extends Event, R = T>(
 
     terminateUpdaters();
 
-    activatorAttached = true;
+    setActivatorAttached(true);
     activatorProxy = activator;
 
-    if (listenerTarget() === undefined) {
+    if (!rendered || listenerTarget() === undefined) {
       return;
     }
 
@@ -280,6 +594,15 @@ export function signalFromEvent<T extends Event, R = T>(
     }
   };
 
+  const replaceActivator = (
+    activator: true | Signal<boolean> | Observable<boolean>
+  ) => {
+    // unlike deactivate, the listeners are kept, the new activator adds or removes them
+    terminateUpdaters();
+    activatorAttached = false;
+    attachActivator(activator);
+  };
+
   if (options?.activate === true) {
     attachActivator(true);
   }
@@ -287,9 +610,155 @@ export function signalFromEvent<T extends Event, R = T>(
   return Object.assign(eventSignal.asReadonly(), {
     attachActivator,
     deactivate,
+    reset,
+    replaceActivator,
+    isActive: isActive.asReadonly(),
+    isListening: listener.listeningState.asReadonly(),
+    currentTarget: listener.currentTargetState.asReadonly(),
   }) as EventSignal<R | undefined>;
 }
 
+function createInertEventSignal<R>(
+  initialValue?: R
+): EventSignal<R | undefined> {
+  return Object.assign(signal(initialValue).asReadonly(), {
+    attachActivator: () => undefined,
+    deactivate: () => undefined,
+    reset: () => undefined,
+    replaceActivator: () => undefined,
+    isActive: signal(false).asReadonly(),
+    isListening: signal(false).asReadonly(),
+    currentTarget: signal(undefined).asReadonly(),
+  });
+}
+
+function resolveGlobalTarget<T>(
+  target: SignalFromEventGlobalTarget,
+  injector: Injector
+): ElementRef<HasEventTargetAddRemove<T>> | undefined {
+  const document = injector.get(DOCUMENT);
+  const nativeElement =
+    target === 'window'
+      ? document.defaultView
+      : target === 'document'
+      ? document
+      : document.body;
+  return nativeElement !== null
+    ? ({ nativeElement } as ElementRef<HasEventTargetAddRemove<T>>)
+    : undefined;
+}
+
+// the buffers are new arrays on every write, they are compared by their results
+function isSameValue<R>(
+  value: R | R[] | undefined,
+  previousValue: R | R[] | undefined,
+  buffered: boolean
+): boolean {
+  if (!buffered || !Array.isArray(value) || !Array.isArray(previousValue)) {
+    return Object.is(value, previousValue);
+  }
+  return (
+    value.length === previousValue.length &&
+    value.every((result, index) => Object.is(result, previousValue[index]))
+  );
+}
+
+function createEventBuffer<R>({
+  size,
+  timeMs,
+}: SignalFromEventBufferOptions): EventBuffer<R> {
+  if (size === undefined && timeMs === undefined) {
+    throw new Error('The buffer option needs a size or a timeMs limit!');
+  }
+  const capacity = size ?? Infinity;
+  // the signal needs a new array on every write, so a ring would have to be copied in order anyway. The array of the values is copied
+  // once per push instead (dropping the oldest value while copying), the write times are kept in the same order in a queue.
+  let values: R[] = [];
+  const times: number[] = [];
+
+  return {
+    push: (value, time) => {
+      if (capacity === 0) {
+        return values;
+      }
+      const dropped = values.length < capacity ? 0 : 1;
+      values = values.slice(dropped);
+      values.push(value);
+      times.splice(0, dropped);
+      times.push(time);
+      return values;
+    },
+    prune: (time) => {
+      const expired =
+        timeMs !== undefined
+          ? times.findIndex((writeTime) => time - writeTime < timeMs)
+          : 0;
+      const dropped = expired === -1 ? times.length : expired;
+      if (dropped > 0) {
+        values = values.slice(dropped);
+        times.splice(0, dropped);
+      }
+      return values;
+    },
+    expiresIn: (time) => {
+      const oldest = times[0];
+      return timeMs !== undefined && oldest !== undefined
+        ? Math.max(oldest + timeMs - time, 0)
+        : undefined;
+    },
+    clear: () => {
+      values = [];
+      times.length = 0;
+    },
+  };
+}
+
+function createRateLimiter<R>(options?: {
+  throttle?: number;
+  debounce?: number;
+  schedule?: 'raf' | 'microtask' | 'idle';
+}): MonoTypeOperatorFunction<R> | undefined {
+  const rateLimitOptions = [
+    options?.throttle,
+    options?.debounce,
+    options?.schedule,
+  ].filter((option) => option !== undefined);
+  if (rateLimitOptions.length > 1) {
+    throw new Error(
+      'Only one of the throttle, debounce and schedule options can be provided!'
+    );
+  }
+  if (options?.throttle !== undefined) {
+    return throttleTime(options.throttle, asyncScheduler, {
+      leading: true,
+      trailing: true,
+    });
+  }
+  if (options?.debounce !== undefined) {
+    return debounceTime(options.debounce);
+  }
+  // throttling for 0ms with a scheduler writes the latest value when the scheduler runs
+  switch (options?.schedule) {
+    case 'raf':
+      return throttleTime(0, animationFrameScheduler, {
+        leading: false,
+        trailing: true,
+      });
+    case 'microtask':
+      return throttleTime(0, asapScheduler, {
+        leading: false,
+        trailing: true,
+      });
+    case 'idle':
+      return throttle(() => fromIdleCallback(), {
+        leading: false,
+        trailing: true,
+      });
+    default:
+      return undefined;
+  }
+}
+
 function addOrRemoveEventListener<T>(activate: boolean, listener: Listener<T>) {
   activate
     ? addEventListenerToTarget(listener)
@@ -297,33 +766,109 @@ function addOrRemoveEventListener<T>(activate: boolean, listener: Listener<T>) {
 }
 
 function addEventListenerToTarget<T>(listener: Listener<T>) {
-  const target = listener.target()?.nativeElement;
-  const eventName = listener.eventName();
-  if (target !== undefined && listener.listening === false) {
-    for (const eName of Array.isArray(eventName) ? eventName : [eventName]) {
-      target.addEventListener(eName, listener.eventListener, listener.options);
-    }
+  const targets = toNativeTargets(listener.target());
+  if (targets !== undefined && listener.listening === false) {
+    const eventName = listener.eventName();
+    targets.forEach((target) => addEventListeners(listener, target, eventName));
+    listener.attachedTargets = targets;
+    listener.attachedEventName = eventName;
     listener.listening = true;
+    updateListenerState(listener);
   }
 }
 
-function removeEventListenerFromTarget<T>(
-  listener: Listener<T>,
-  previousListener?: {
-    target?: HasEventTargetAddRemove<T>;
-    eventName?: string | string[];
+function removeEventListenerFromTarget<T>(listener: Listener<T>) {
+  const eventName = listener.attachedEventName;
+  if (listener.listening === true && eventName !== undefined) {
+    listener.attachedTargets.forEach((target) =>
+      removeEventListeners(listener, target, eventName)
+    );
   }
+  listener.attachedTargets = [];
+  listener.listening = false;
+  updateListenerState(listener);
+}
+
+function updateEventListenerTargets<T>(listener: Listener<T>) {
+  const targets = toNativeTargets(listener.target()) ?? [];
+  const eventName = listener.attachedEventName ?? listener.eventName();
+  listener.attachedTargets
+    .filter((target) => !targets.includes(target))
+    .forEach((target) => removeEventListeners(listener, target, eventName));
+  targets
+    .filter((target) => !listener.attachedTargets.includes(target))
+    .forEach((target) => addEventListeners(listener, target, eventName));
+  listener.attachedTargets = targets;
+  updateListenerState(listener);
+}
+
+function updateListenerState<T>(listener: Listener<T>) {
+  const targets = listener.attachedTargets as unknown as EventTarget[];
+  untracked(() => {
+    listener.listeningState.set(listener.listening);
+    // a list target is exposed as a list even with a single element, the other targets as the element itself
+    listener.currentTargetState.set(
+      !listener.listening
+        ? undefined
+        : isElementRefList(listener.target())
+        ? targets
+        : targets[0]
+    );
+  });
+}
+
+function addEventListeners<T>(
+  listener: Listener<T>,
+  target: HasEventTargetAddRemove<T>,
+  eventName: string | string[]
 ) {
-  const target = previousListener?.target ?? listener.target()?.nativeElement;
-  const eventName = previousListener?.eventName ?? listener.eventName();
-  if (target !== undefined && listener.listening === true) {
+  const addListeners = () => {
     for (const eName of Array.isArray(eventName) ? eventName : [eventName]) {
-      target.removeEventListener(
-        eName,
-        listener.eventListener,
-        listener.options
-      );
+      target.addEventListener(eName, listener.eventListener, listener.options);
     }
+  };
+  if (listener.zone !== undefined) {
+    listener.zone.runOutsideAngular(addListeners);
+  } else {
+    addListeners();
   }
-  listener.listening = false;
+}
+
+function removeEventListeners<T>(
+  listener: Listener<T>,
+  target: HasEventTargetAddRemove<T>,
+  eventName: string | string[]
+) {
+  for (const eName of Array.isArray(eventName) ? eventName : [eventName]) {
+    target.removeEventListener(eName, listener.eventListener, listener.options);
+  }
+}
+
+function toNativeTargets<T>(
+  target: ListenerTarget<T>
+): HasEventTargetAddRemove<T>[] | undefined {
+  if (target === undefined) {
+    return undefined;
+  }
+  if (isElementRefList(target)) {
+    return target.map((elementRef) => elementRef.nativeElement);
+  }
+  return target.nativeElement !== undefined ? [target.nativeElement] : [];
+}
+
+function isElementRefList<T>(
+  target: ListenerTarget<T>
+): target is readonly ElementRef<HasEventTargetAddRemove<T>>[] {
+  return Array.isArray(target);
+}
+
+function findDelegateTarget(event: Event, selector: string): Element | null {
+  const origin = event.target as Partial<Element> | null;
+  const container = event.currentTarget as Partial<Node> | null;
+  const matched = origin?.closest?.(selector) ?? null;
+  // a window container has no contains method, every element is its descendant
+  if (matched === null || container?.contains?.(matched) === false) {
+    return null;
+  }
+  return matched;
 }
@@ -0,0 +1,410 @@
+import { fakeAsync, TestBed, tick } from '@angular/core/testing';
+import {
+  signalFromDrag,
+  signalFromLongPress,
+  signalFromPinch,
+  signalFromSwipe,
+} from './gesture-signals';
+
+describe('gesture-signals.ts', () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    // synthetic pointers can not be captured
+    element.setPointerCapture = jasmine.createSpy('setPointerCapture');
+  });
+
+  const dispatchPointer = (
+    type: string,
+    init: PointerEventInit & { timeStamp?: number } = {}
+  ) => {
+    const { timeStamp, ...eventInit } = init;
+    const event = new PointerEvent(type, {
+      pointerId: 1,
+      isPrimary: true,
+      ...eventInit,
+    });
+    if (timeStamp !== undefined) {
+      Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+    }
+    element.dispatchEvent(event);
+  };
+
+  describe('signalFromDrag', () => {
+    it('should follow the phases, the position and the delta of the drag', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      expect(drag().phase).toBe('idle');
+
+      dispatchPointer('pointerdown', { clientX: 10, clientY: 20 });
+
+      expect(element.setPointerCapture).toHaveBeenCalledOnceWith(1);
+      expect(drag()).toEqual(
+        jasmine.objectContaining({
+          phase: 'start',
+          start: { x: 10, y: 20 },
+          delta: { x: 0, y: 0 },
+        })
+      );
+
+      dispatchPointer('pointermove', { clientX: 30, clientY: 25 });
+
+      expect(drag()).toEqual(
+        jasmine.objectContaining({
+          phase: 'move',
+          position: { x: 30, y: 25 },
+          delta: { x: 20, y: 5 },
+        })
+      );
+
+      dispatchPointer('pointerup', { clientX: 40, clientY: 25 });
+
+      expect(drag()).toEqual(
+        jasmine.objectContaining({
+          phase: 'end',
+          start: { x: 10, y: 20 },
+          delta: { x: 30, y: 5 },
+        })
+      );
+    });
+
+    it('should measure the velocity over the pointer events of the last 100 milliseconds', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 0, timeStamp: 1000 });
+      dispatchPointer('pointermove', { clientX: 20, timeStamp: 1010 });
+
+      expect(drag().velocity).toEqual({ x: 2, y: 0 });
+
+      dispatchPointer('pointermove', { clientX: 60, timeStamp: 1020 });
+
+      expect(drag().velocity).toEqual({ x: 3, y: 0 });
+
+      dispatchPointer('pointermove', { clientX: 100, timeStamp: 1120 });
+
+      expect(drag().velocity).toEqual({ x: 0.4, y: 0 });
+    });
+
+    it('should not lose the velocity when the release repeats the position of the last move', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 0, timeStamp: 1000 });
+      dispatchPointer('pointermove', { clientX: 50, timeStamp: 1050 });
+      dispatchPointer('pointerup', { clientX: 50, timeStamp: 1060 });
+
+      expect(drag().velocity.x).toBeCloseTo(50 / 60);
+    });
+
+    it('should have no velocity if the pointer rested before the release', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 0, timeStamp: 1000 });
+      dispatchPointer('pointermove', { clientX: 50, timeStamp: 1050 });
+      dispatchPointer('pointerup', { clientX: 50, timeStamp: 1300 });
+
+      expect(drag().velocity).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should ignore the other pointers and the secondary buttons', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { button: 2 });
+
+      expect(drag().phase).toBe('idle');
+
+      dispatchPointer('pointerdown', { clientX: 10 });
+      dispatchPointer('pointermove', { pointerId: 2, clientX: 100 });
+
+      expect(drag().phase).toBe('start');
+    });
+
+    it('should be cancelled by pointercancel', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown');
+      dispatchPointer('pointercancel');
+
+      expect(drag().phase).toBe('cancel');
+    });
+
+    it('should forget the drag in progress on reset', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 10, clientY: 10 });
+      drag.reset();
+      dispatchPointer('pointermove', { clientX: 20, clientY: 20 });
+
+      expect(drag().phase).toBe('idle');
+    });
+
+    it('should not follow the pointer until it is activated', () => {
+      const drag = TestBed.runInInjectionContext(() =>
+        signalFromDrag({ target: element })
+      );
+
+      dispatchPointer('pointerdown');
+
+      expect(drag().phase).toBe('idle');
+
+      drag.attachActivator(true);
+      dispatchPointer('pointerdown');
+
+      expect(drag().phase).toBe('start');
+    });
+  });
+
+  describe('signalFromSwipe', () => {
+    const swipe = (to: { x: number; y: number }, duration: number) => {
+      dispatchPointer('pointerdown', {
+        clientX: 100,
+        clientY: 100,
+        timeStamp: 1000,
+      });
+      dispatchPointer('pointermove', {
+        clientX: 100 + to.x / 2,
+        clientY: 100 + to.y / 2,
+        timeStamp: 1000 + duration / 2,
+      });
+      dispatchPointer('pointerup', {
+        clientX: 100 + to.x,
+        clientY: 100 + to.y,
+        timeStamp: 1000 + duration,
+      });
+    };
+
+    it('should be the last swipe with its direction', () => {
+      const lastSwipe = TestBed.runInInjectionContext(() =>
+        signalFromSwipe({ target: element, activate: true })
+      );
+
+      expect(lastSwipe().direction).toBeUndefined();
+
+      swipe({ x: 100, y: 10 }, 100);
+
+      expect(lastSwipe()).toEqual(
+        jasmine.objectContaining({
+          phase: 'end',
+          direction: 'right',
+          delta: { x: 100, y: 10 },
+        })
+      );
+
+      swipe({ x: 0, y: -80 }, 100);
+
+      expect(lastSwipe().direction).toBe('up');
+    });
+
+    it('should ignore the drags that are too short or too slow', () => {
+      const lastSwipe = TestBed.runInInjectionContext(() =>
+        signalFromSwipe({ target: element, activate: true, threshold: 60 })
+      );
+
+      swipe({ x: -50, y: 0 }, 50);
+      swipe({ x: -100, y: 0 }, 1000);
+
+      expect(lastSwipe().phase).toBe('idle');
+
+      swipe({ x: -100, y: 0 }, 100);
+
+      expect(lastSwipe().direction).toBe('left');
+    });
+
+    it('should recognize the swipe when the release repeats the position of the last move', () => {
+      const lastSwipe = TestBed.runInInjectionContext(() =>
+        signalFromSwipe({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 100, timeStamp: 1000 });
+      dispatchPointer('pointermove', { clientX: 150, timeStamp: 1040 });
+      dispatchPointer('pointermove', { clientX: 200, timeStamp: 1080 });
+      dispatchPointer('pointerup', { clientX: 200, timeStamp: 1090 });
+
+      expect(lastSwipe().direction).toBe('right');
+    });
+
+    it('should not restore the last swipe after reset', () => {
+      const lastSwipe = TestBed.runInInjectionContext(() =>
+        signalFromSwipe({ target: element, activate: true })
+      );
+      swipe({ x: 100, y: 0 }, 100);
+
+      lastSwipe.reset();
+      dispatchPointer('pointermove', { clientX: 10, clientY: 10 });
+
+      expect(lastSwipe().phase).toBe('idle');
+      expect(lastSwipe().direction).toBeUndefined();
+    });
+  });
+
+  describe('signalFromLongPress', () => {
+    it('should start once the pointer was held for the duration and end on release', fakeAsync(() => {
+      const longPress = TestBed.runInInjectionContext(() =>
+        signalFromLongPress({ target: element, activate: true, duration: 300 })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 10, clientY: 10 });
+      tick(299);
+
+      expect(longPress().phase).toBe('idle');
+
+      tick(1);
+
+      expect(longPress()).toEqual({
+        phase: 'start',
+        start: { x: 10, y: 10 },
+        delta: { x: 0, y: 0 },
+        duration: 300,
+      });
+
+      dispatchPointer('pointerup', { clientX: 15, clientY: 10 });
+
+      expect(longPress()).toEqual(
+        jasmine.objectContaining({ phase: 'end', delta: { x: 5, y: 0 } })
+      );
+    }));
+
+    it('should ignore the presses released or moved beyond the tolerance before the duration', fakeAsync(() => {
+      const longPress = TestBed.runInInjectionContext(() =>
+        signalFromLongPress({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown');
+      tick(400);
+      dispatchPointer('pointerup');
+      tick(500);
+
+      dispatchPointer('pointerdown', { clientX: 0 });
+      dispatchPointer('pointermove', { clientX: 5 });
+      dispatchPointer('pointermove', { clientX: 20 });
+      tick(500);
+
+      expect(longPress().phase).toBe('idle');
+    }));
+
+    it('should not start after it was deactivated during the press', fakeAsync(() => {
+      const longPress = TestBed.runInInjectionContext(() =>
+        signalFromLongPress({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown');
+      longPress.deactivate();
+      tick(500);
+
+      expect(longPress().phase).toBe('idle');
+      expect(longPress.isActive()).toBeFalse();
+    }));
+  });
+
+  describe('signalFromPinch', () => {
+    it('should follow the scale and the center between two pointers', () => {
+      const pinch = TestBed.runInInjectionContext(() =>
+        signalFromPinch({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 0, clientY: 0 });
+
+      expect(pinch().phase).toBe('idle');
+
+      dispatchPointer('pointerdown', {
+        pointerId: 2,
+        isPrimary: false,
+        clientX: 100,
+        clientY: 0,
+      });
+
+      expect(pinch()).toEqual(
+        jasmine.objectContaining({
+          phase: 'start',
+          center: { x: 50, y: 0 },
+          distance: 100,
+          scale: 1,
+        })
+      );
+
+      dispatchPointer('pointermove', {
+        pointerId: 2,
+        isPrimary: false,
+        clientX: 200,
+        clientY: 0,
+      });
+
+      expect(pinch()).toEqual(
+        jasmine.objectContaining({
+          phase: 'move',
+          center: { x: 100, y: 0 },
+          delta: { x: 50, y: 0 },
+          distance: 200,
+          scale: 2,
+        })
+      );
+
+      dispatchPointer('pointerup', { pointerId: 2, isPrimary: false });
+
+      expect(pinch().phase).toBe('end');
+      expect(pinch().scale).toBe(2);
+    });
+
+    it('should ignore the further pointers', () => {
+      const pinch = TestBed.runInInjectionContext(() =>
+        signalFromPinch({ target: element, activate: true })
+      );
+
+      dispatchPointer('pointerdown', { clientX: 0 });
+      dispatchPointer('pointerdown', {
+        pointerId: 2,
+        isPrimary: false,
+        clientX: 100,
+      });
+      dispatchPointer('pointerdown', {
+        pointerId: 3,
+        isPrimary: false,
+        clientX: 300,
+      });
+      dispatchPointer('pointermove', {
+        pointerId: 3,
+        isPrimary: false,
+        clientX: 400,
+      });
+
+      expect(pinch().phase).toBe('start');
+      expect(pinch().distance).toBe(100);
+    });
+
+    it('should forget the pointers and the last pinch on reset', () => {
+      const pinch = TestBed.runInInjectionContext(() =>
+        signalFromPinch({ target: element, activate: true })
+      );
+      dispatchPointer('pointerdown', { clientX: 0 });
+      dispatchPointer('pointerdown', {
+        pointerId: 2,
+        isPrimary: false,
+        clientX: 100,
+      });
+
+      pinch.reset();
+      dispatchPointer('pointermove', {
+        pointerId: 2,
+        isPrimary: false,
+        clientX: 200,
+      });
+
+      expect(pinch().phase).toBe('idle');
+      expect(pinch().scale).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import { DestroyRef, inject, Injector, signal } from '@angular/core';
+import {
+  EventSignal,
+  signalFromEvent,
+  SignalFromEventOptions,
+} from './event-signal';
+
+/**
+ * The phase of a gesture: 'idle' before the first gesture, then 'start', 'move' and 'end' (or 'cancel' if the browser cancelled the pointer).
+ */
+export type GesturePhase = 'idle' | 'start' | 'move' | 'end' | 'cancel';
+
+export type GesturePoint = {
+  x: number;
+  y: number;
+};
+
+export type DragState = {
+  phase: GesturePhase;
+  start: GesturePoint;
+  position: GesturePoint;
+  delta: GesturePoint;
+  velocity: GesturePoint;
+};
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export type SwipeState = DragState & {
+  direction: SwipeDirection | undefined;
+};
+
+export type LongPressState = {
+  phase: GesturePhase;
+  start: GesturePoint;
+  delta: GesturePoint;
+  duration: number;
+};
+
+export type PinchState = {
+  phase: GesturePhase;
+  start: GesturePoint;
+  center: GesturePoint;
+  delta: GesturePoint;
+  distance: number;
+  scale: number;
+  velocity: number;
+};
+
+export type GestureSignalOptions = Pick<
+  SignalFromEventOptions<PointerEvent>,
+  | 'target'
+  | 'activate'
+  | 'injector'
+  | 'throttle'
+  | 'debounce'
+  | 'schedule'
+  | 'runOutsideAngular'
+  | 'activateAfterNextRender'
+>;
+
+export type SwipeSignalOptions = GestureSignalOptions & {
+  threshold?: number;
+  minVelocity?: number;
+};
+
+export type LongPressSignalOptions = Omit<
+  GestureSignalOptions,
+  'throttle' | 'debounce' | 'schedule'
+> & {
+  duration?: number;
+  tolerance?: number;
+};
+
+type PointerSample = {
+  point: GesturePoint;
+  time: number;
+};
+
+const POINTER_EVENTS = [
+  'pointerdown',
+  'pointermove',
+  'pointerup',
+  'pointercancel',
+] as const;
+
+const ORIGIN: GesturePoint = { x: 0, y: 0 };
+
+// the release usually repeats the position of the last move, so the velocity is measured over the recent samples
+const VELOCITY_WINDOW_MS = 100;
+
+const IDLE_DRAG_STATE: DragState = {
+  phase: 'idle',
+  start: ORIGIN,
+  position: ORIGIN,
+  delta: ORIGIN,
+  velocity: ORIGIN,
+};
+
+const IDLE_SWIPE_STATE: SwipeState = {
+  ...IDLE_DRAG_STATE,
+  direction: undefined,
+};
+
+const IDLE_PINCH_STATE: PinchState = {
+  phase: 'idle',
+  start: ORIGIN,
+  center: ORIGIN,
+  delta: ORIGIN,
+  distance: 0,
+  scale: 1,
+  velocity: 0,
+};
+
+type DragTracker = {
+  track: (event: PointerEvent, target: EventTarget) => DragState;
+  reset: () => void;
+};
+
+/**
+ * Creates an `EventSignal` of the state of dragging the target with the primary pointer (mouse, pen or touch).
+ * The pointer is captured on pointerdown, so the drag continues even if the pointer leaves the target.
+ * For touch the `touch-action` CSS property of the target has to prevent the scrolling of the browser, e.g. `touch-action: none`.
+ *
+ * @param options The target, activator and rate limiting options of `signalFromEvent`.
+ * @returns {EventSignal<DragState>} The phase of the drag, its start, current position and delta in client coordinates,
+ * and the velocity in pixels per millisecond measured over the pointer events of the last 100 milliseconds.
+ *
+ * ### Example:
+ * ```typescript
+ * readonly drag = signalFromDrag({ target: viewChild(...), schedule: 'raf', activate: true });
+ * readonly transform = computed(() => `translate(${this.drag().delta.x}px, ${this.drag().delta.y}px)`);
+ * ```
+ */
+export function signalFromDrag(
+  options?: GestureSignalOptions
+): EventSignal<DragState> {
+  const dragTracker = createDragTracker();
+  const eventSignal = signalFromEvent([...POINTER_EVENTS], {
+    ...options,
+    resultSelector: (event, target) => dragTracker.track(event, target),
+    initialValue: IDLE_DRAG_STATE,
+  });
+  return withReset(eventSignal, dragTracker.reset);
+}
+
+/**
+ * Creates an `EventSignal` of the last swipe on the target. A drag of the primary pointer is a swipe if its distance and its velocity
+ * along the dominant axis reach the threshold and the minVelocity when the pointer is released, the other drags are ignored.
+ *
+ * @param options The options of `signalFromDrag` and:
+ * - **threshold**: The minimal distance of a swipe in pixels, 50 by default.
+ * - **minVelocity**: The minimal velocity of a swipe at the release in pixels per millisecond, 0.3 by default.
+ * @returns {EventSignal<SwipeState>} The final drag state of the last swipe with its direction.
+ */
+export function signalFromSwipe(
+  options?: SwipeSignalOptions
+): EventSignal<SwipeState> {
+  const {
+    threshold = 50,
+    minVelocity = 0.3,
+    ...gestureOptions
+  } = options ?? {};
+  const dragTracker = createDragTracker();
+  let lastSwipe = IDLE_SWIPE_STATE;
+  const eventSignal = signalFromEvent([...POINTER_EVENTS], {
+    ...gestureOptions,
+    // the signal keeps the last swipe for every other pointer event, it is not changed by them
+    resultSelector: (event, target) => {
+      const drag = dragTracker.track(event, target);
+      if (drag.phase !== 'end' || event.type !== 'pointerup') {
+        return lastSwipe;
+      }
+      const direction = toSwipeDirection(drag, threshold, minVelocity);
+      return direction !== undefined
+        ? (lastSwipe = { ...drag, direction })
+        : lastSwipe;
+    },
+    initialValue: IDLE_SWIPE_STATE,
+  });
+  return withReset(eventSignal, () => {
+    dragTracker.reset();
+    lastSwipe = IDLE_SWIPE_STATE;
+  });
+}
+
+/**
+ * Creates an `EventSignal` of the long presses of the target with the primary pointer. The phase is 'start' once the pointer was held
+ * for the duration without moving more than the tolerance, then 'end' when it is released (or 'cancel'). The presses released or moved
+ * earlier are ignored.
+ *
+ * @param options The target and activator options of `signalFromEvent` and:
+ * - **duration**: The time the pointer has to be held in milliseconds, 500 by default.
+ * - **tolerance**: The distance the pointer can move during the press in pixels, 10 by default.
+ * @returns {EventSignal<LongPressState>} The phase of the long press, its start and delta in client coordinates and how long the pointer was held.
+ */
+export function signalFromLongPress(
+  options?: LongPressSignalOptions
+): EventSignal<LongPressState> {
+  const { duration = 500, tolerance = 10, ...gestureOptions } = options ?? {};
+  const injector = gestureOptions.injector ?? inject(Injector);
+  const idleState: LongPressState = {
+    phase: 'idle',
+    start: ORIGIN,
+    delta: ORIGIN,
+    duration: 0,
+  };
+  const state = signal(idleState);
+
+  let press: PointerSample | undefined = undefined;
+  let pointerId: number | undefined = undefined;
+  let recognized = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined = undefined;
+  const resetPress = () => {
+    clearTimeout(timeoutId);
+    timeoutId = undefined;
+    press = undefined;
+    pointerId = undefined;
+    recognized = false;
+  };
+
+  // the timer writes the signal, so the state is not the result of the pointer events
+  const eventSignal = signalFromEvent([...POINTER_EVENTS], {
+    ...gestureOptions,
+    injector,
+    tap: (event) => {
+      if (event.type === 'pointerdown') {
+        if (!isPrimaryButton(event)) {
+          return;
+        }
+        resetPress();
+        capturePointer(event);
+        const start = toSample(event);
+        press = start;
+        pointerId = event.pointerId;
+        timeoutId = setTimeout(() => {
+          recognized = true;
+          state.set({
+            phase: 'start',
+            start: start.point,
+            delta: ORIGIN,
+            duration,
+          });
+        }, duration);
+        return;
+      }
+      if (press === undefined || event.pointerId !== pointerId) {
+        return;
+      }
+      const delta = subtract(toPoint(event), press.point);
+      if (event.type === 'pointermove') {
+        if (!recognized && Math.hypot(delta.x, delta.y) > tolerance) {
+          resetPress();
+        }
+        return;
+      }
+      if (recognized) {
+        state.set({
+          phase: event.type === 'pointerup' ? 'end' : 'cancel',
+          start: press.point,
+          delta,
+          duration: Math.max(event.timeStamp - press.time, duration),
+        });
+      }
+      resetPress();
+    },
+  });
+
+  injector.get(DestroyRef).onDestroy(resetPress);
+
+  return Object.assign(state.asReadonly(), {
+    attachActivator: eventSignal.attachActivator,
+    deactivate: () => {
+      resetPress();
+      eventSignal.deactivate();
+    },
+    reset: () => {
+      resetPress();
+      state.set(idleState);
+    },
+    replaceActivator: eventSignal.replaceActivator,
+    isActive: eventSignal.isActive,
+    isListening: eventSignal.isListening,
+    currentTarget: eventSignal.currentTarget,
+  });
+}
+
+/**
+ * Creates an `EventSignal` of the state of pinching the target with two pointers (usually two fingers).
+ * Both pointers are captured, the pinch starts when the second pointer is down and ends when one of them is released.
+ * The further pointers are ignored. The `touch-action` CSS property of the target has to prevent the zooming of the browser.
+ *
+ * @param options The target, activator and rate limiting options of `signalFromEvent`.
+ * @returns {EventSignal<PinchState>} The phase of the pinch, the start, current position and delta of the center between the pointers,
+ * the distance between the pointers, the scale compared to the start and its velocity in scale per millisecond.
+ */
+export function signalFromPinch(
+  options?: GestureSignalOptions
+): EventSignal<PinchState> {
+  const pointers = new Map<number, GesturePoint>();
+  let startDistance = 0;
+  let lastTime = 0;
+  let state = IDLE_PINCH_STATE;
+
+  const eventSignal = signalFromEvent([...POINTER_EVENTS], {
+    ...options,
+    resultSelector: (event) => {
+      if (event.type === 'pointerdown') {
+        // the first pointer of a new touch is the primary one, the pointers of a deactivated pinch are forgotten
+        if (event.isPrimary) {
+          pointers.clear();
+        }
+        if (pointers.size >= 2) {
+          return state;
+        }
+        capturePointer(event);
+        pointers.set(event.pointerId, toPoint(event));
+        if (pointers.size < 2) {
+          return state;
+        }
+        const [first, second] = [...pointers.values()];
+        const center = midpoint(first, second);
+        startDistance = distanceOf(first, second);
+        lastTime = event.timeStamp;
+        return (state = {
+          phase: 'start',
+          start: center,
+          center,
+          delta: ORIGIN,
+          distance: startDistance,
+          scale: 1,
+          velocity: 0,
+        });
+      }
+      if (!pointers.has(event.pointerId)) {
+        return state;
+      }
+      if (event.type === 'pointermove') {
+        pointers.set(event.pointerId, toPoint(event));
+        if (pointers.size < 2) {
+          return state;
+        }
+        const [first, second] = [...pointers.values()];
+        const center = midpoint(first, second);
+        const distance = distanceOf(first, second);
+        const scale = startDistance > 0 ? distance / startDistance : 1;
+        const elapsed = event.timeStamp - lastTime;
+        lastTime = event.timeStamp;
+        return (state = {
+          ...state,
+          phase: 'move',
+          center,
+          delta: subtract(center, state.start),
+          distance,
+          scale,
+          velocity: elapsed > 0 ? (scale - state.scale) / elapsed : 0,
+        });
+      }
+      const pinching = pointers.size === 2;
+      pointers.delete(event.pointerId);
+      if (!pinching) {
+        return state;
+      }
+      return (state = {
+        ...state,
+        phase: event.type === 'pointerup' ? 'end' : 'cancel',
+      });
+    },
+    initialValue: IDLE_PINCH_STATE,
+  });
+  return withReset(eventSignal, () => {
+    pointers.clear();
+    startDistance = 0;
+    lastTime = 0;
+    state = IDLE_PINCH_STATE;
+  });
+}
+
+// the gestures keep their state between the events, it is cleared as well when the signal is reset, so the next event does not restore the old value
+function withReset<T>(
+  eventSignal: EventSignal<T>,
+  resetState: () => void
+): EventSignal<T> {
+  const reset = eventSignal.reset;
+  return Object.assign(eventSignal, {
+    reset: () => {
+      resetState();
+      reset();
+    },
+  });
+}
+
+function createDragTracker(): DragTracker {
+  let pointerId: number | undefined = undefined;
+  let last: PointerSample | undefined = undefined;
+  let recentSamples: PointerSample[] = [];
+  let state = IDLE_DRAG_STATE;
+
+  const reset = () => {
+    pointerId = undefined;
+    last = undefined;
+    recentSamples = [];
+    state = IDLE_DRAG_STATE;
+  };
+
+  const track = (event: PointerEvent, target: EventTarget): DragState => {
+    if (event.type === 'pointerdown') {
+      if (!isPrimaryButton(event)) {
+        return state;
+      }
+      capturePointer(event, target);
+      pointerId = event.pointerId;
+      last = toSample(event);
+      recentSamples = [last];
+      return (state = {
+        phase: 'start',
+        start: last.point,
+        position: last.point,
+        delta: ORIGIN,
+        velocity: ORIGIN,
+      });
+    }
+    if (event.pointerId !== pointerId || last === undefined) {
+      return state;
+    }
+    const sample = toSample(event);
+    recentSamples = recentSamples.filter(
+      (recent) => sample.time - recent.time <= VELOCITY_WINDOW_MS
+    );
+    // the last sample is the origin if the pointer rested longer than the window, so the velocity is 0 after a pause
+    const origin = recentSamples[0] ?? last;
+    const elapsed = sample.time - origin.time;
+    const velocity =
+      elapsed > 0
+        ? {
+            x: (sample.point.x - origin.point.x) / elapsed,
+            y: (sample.point.y - origin.point.y) / elapsed,
+          }
+        : state.velocity;
+    recentSamples.push(sample);
+    last = sample;
+    if (event.type !== 'pointermove') {
+      pointerId = undefined;
+    }
+    return (state = {
+      phase:
+        event.type === 'pointermove'
+          ? 'move'
+          : event.type === 'pointerup'
+          ? 'end'
+          : 'cancel',
+      start: state.start,
+      position: sample.point,
+      delta: subtract(sample.point, state.start),
+      velocity,
+    });
+  };
+
+  return { track, reset };
+}
+
+function toSwipeDirection(
+  drag: DragState,
+  threshold: number,
+  minVelocity: number
+): SwipeDirection | undefined {
+  const horizontal = Math.abs(drag.delta.x) >= Math.abs(drag.delta.y);
+  const distance = horizontal ? drag.delta.x : drag.delta.y;
+  const velocity = horizontal ? drag.velocity.x : drag.velocity.y;
+  if (Math.abs(distance) < threshold || Math.abs(velocity) < minVelocity) {
+    return undefined;
+  }
+  if (horizontal) {
+    return distance > 0 ? 'right' : 'left';
+  }
+  return distance > 0 ? 'down' : 'up';
+}
+
+function isPrimaryButton(event: PointerEvent): boolean {
+  return event.isPrimary && event.button === 0;
+}
+
+function capturePointer(
+  event: PointerEvent,
+  target: EventTarget | null = event.currentTarget
+) {
+  // the window and the document can not capture the pointer
+  (target as Partial<Element> | null)?.setPointerCapture?.(event.pointerId);
+}
+
+function toSample(event: PointerEvent): PointerSample {
+  return { point: toPoint(event), time: event.timeStamp };
+}
+
+function toPoint(event: PointerEvent): GesturePoint {
+  return { x: event.clientX, y: event.clientY };
+}
+
+function subtract(point: GesturePoint, origin: GesturePoint): GesturePoint {
+  return { x: point.x - origin.x, y: point.y - origin.y };
+}
+
+function midpoint(first: GesturePoint, second: GesturePoint): GesturePoint {
+  return { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+}
+
+function distanceOf(first: GesturePoint, second: GesturePoint): number {
+  return Math.hypot(second.x - first.x, second.y - first.y);
+}
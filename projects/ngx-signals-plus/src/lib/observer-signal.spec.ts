@@ -0,0 +1,207 @@
+import { ElementRef, PLATFORM_ID, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { signalFromObserver } from './observer-signal';
+
+class FakeObserver {
+  static instances: FakeObserver[] = [];
+  observed: Element[] = [];
+  disconnected = false;
+
+  constructor(private readonly callback: (entries: unknown[]) => void) {
+    FakeObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.observed.push(element);
+  }
+
+  disconnect() {
+    this.disconnected = true;
+  }
+
+  emit(entry: unknown) {
+    this.callback([entry]);
+  }
+}
+
+describe('observer-signal.ts', () => {
+  describe('signalFromObserver', () => {
+    const globals = globalThis as unknown as Record<string, unknown>;
+    let originalResizeObserver: unknown;
+    let originalIntersectionObserver: unknown;
+    let element: HTMLElement;
+
+    const activeObservers = () =>
+      FakeObserver.instances.filter((observer) => !observer.disconnected);
+
+    beforeEach(() => {
+      originalResizeObserver = globals['ResizeObserver'];
+      originalIntersectionObserver = globals['IntersectionObserver'];
+      globals['ResizeObserver'] = FakeObserver;
+      globals['IntersectionObserver'] = FakeObserver;
+      FakeObserver.instances = [];
+      element = document.createElement('div');
+    });
+
+    afterEach(() => {
+      globals['ResizeObserver'] = originalResizeObserver;
+      globals['IntersectionObserver'] = originalIntersectionObserver;
+    });
+
+    it('should be the latest entry of the observer', () => {
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { target: element, activate: true })
+      );
+      const entry = { contentRect: { width: 100 } };
+
+      expect(activeObservers().length).toBe(1);
+      expect(activeObservers()[0].observed).toEqual([element]);
+      expect(resizeEntry()).toBeUndefined();
+
+      activeObservers()[0].emit(entry);
+
+      expect(resizeEntry()).toBe(entry as unknown as ResizeObserverEntry);
+    });
+
+    it('should call the tap and the resultSelector with the entry and the observed element', () => {
+      const tap = jasmine.createSpy('tap');
+      const visible = TestBed.runInInjectionContext(() =>
+        signalFromObserver('intersection', {
+          target: element,
+          tap,
+          resultSelector: (entry, observed) =>
+            entry.isIntersecting && observed === element,
+          initialValue: false,
+          activate: true,
+        })
+      );
+      const entry = { isIntersecting: true };
+
+      expect(visible()).toBeFalse();
+
+      activeObservers()[0].emit(entry);
+
+      expect(tap).toHaveBeenCalledOnceWith(entry, element);
+      expect(visible()).toBeTrue();
+    });
+
+    it('should not observe the target until it is activated', () => {
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { target: element })
+      );
+
+      expect(FakeObserver.instances.length).toBe(0);
+
+      resizeEntry.attachActivator(true);
+
+      expect(activeObservers().length).toBe(1);
+    });
+
+    it('should disconnect the observer on deactivate and observe the target again when it is activated', () => {
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { target: element, activate: true })
+      );
+      const firstObserver = activeObservers()[0];
+
+      resizeEntry.deactivate();
+
+      expect(firstObserver.disconnected).toBeTrue();
+      expect(activeObservers().length).toBe(0);
+
+      resizeEntry.attachActivator(true);
+
+      expect(activeObservers().length).toBe(1);
+      expect(activeObservers()[0]).not.toBe(firstObserver);
+      expect(activeObservers()[0].observed).toEqual([element]);
+    });
+
+    it('should observe the new element when the target signal changes', () => {
+      const anotherElement = document.createElement('div');
+      const target = signal<ElementRef<Element> | undefined>(
+        new ElementRef(element)
+      );
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { target, activate: true })
+      );
+      const firstObserver = activeObservers()[0];
+
+      target.set(new ElementRef(anotherElement));
+      TestBed.flushEffects();
+
+      expect(firstObserver.disconnected).toBeTrue();
+      expect(activeObservers().length).toBe(1);
+      expect(activeObservers()[0].observed).toEqual([anotherElement]);
+
+      const entry = { contentRect: { width: 100 } };
+      activeObservers()[0].emit(entry);
+
+      expect(resizeEntry()).toBe(entry as unknown as ResizeObserverEntry);
+    });
+
+    it('should only observe the new elements of the target list and disconnect the missing ones', () => {
+      const keptElement = document.createElement('div');
+      const newElement = document.createElement('div');
+      const target = signal<readonly ElementRef<Element>[]>([
+        new ElementRef(element),
+        new ElementRef(keptElement),
+      ]);
+      TestBed.runInInjectionContext(() =>
+        signalFromObserver('intersection', { target, activate: true })
+      );
+      const [firstObserver, keptObserver] = activeObservers();
+
+      target.set([new ElementRef(keptElement), new ElementRef(newElement)]);
+      TestBed.flushEffects();
+
+      expect(firstObserver.disconnected).toBeTrue();
+      expect(activeObservers().length).toBe(2);
+      expect(activeObservers()[0]).toBe(keptObserver);
+      expect(activeObservers()[1].observed).toEqual([newElement]);
+    });
+
+    it('should expose the observed element as the current target', () => {
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { target: element, activate: true })
+      );
+
+      expect(resizeEntry.isListening()).toBeTrue();
+      expect(resizeEntry.currentTarget()).toBe(element);
+
+      resizeEntry.deactivate();
+
+      expect(resizeEntry.currentTarget()).toBeUndefined();
+    });
+
+    it('should be the records of the mutation observer', async () => {
+      const mutations = TestBed.runInInjectionContext(() =>
+        signalFromObserver('mutation', {
+          target: element,
+          resultSelector: (records) => records.length,
+          initialValue: 0,
+          activate: true,
+        })
+      );
+
+      element.appendChild(document.createElement('span'));
+      element.appendChild(document.createElement('span'));
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(mutations()).toBe(2);
+    });
+
+    it('should not observe anything on the server', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+      });
+
+      const resizeEntry = TestBed.runInInjectionContext(() =>
+        signalFromObserver('resize', { activate: true })
+      );
+      resizeEntry.attachActivator(true);
+
+      expect(FakeObserver.instances.length).toBe(0);
+      expect(resizeEntry()).toBeUndefined();
+    });
+  });
+});
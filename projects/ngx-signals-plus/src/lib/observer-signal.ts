@@ -0,0 +1,312 @@
+import {
+  computed,
+  ElementRef,
+  inject,
+  Injector,
+  isSignal,
+  Signal,
+} from '@angular/core';
+import { HasEventTargetAddRemove } from 'rxjs/internal/observable/fromEvent';
+import {
+  EventSignal,
+  signalFromEvent,
+  SignalFromEventOptions,
+} from './event-signal';
+
+export type SignalFromObserverType = 'resize' | 'intersection' | 'mutation';
+
+/**
+ * The entries of the observers by their types. The resize and intersection observers emit the latest entry of the observed element,
+ * the mutation observer emits every record of a batch together.
+ */
+export type SignalFromObserverEntryMap = {
+  resize: ResizeObserverEntry;
+  intersection: IntersectionObserverEntry;
+  mutation: MutationRecord[];
+};
+
+export type SignalFromObserverInitMap = {
+  resize: ResizeObserverOptions;
+  intersection: IntersectionObserverInit;
+  mutation: MutationObserverInit;
+};
+
+export type SignalFromObserverOptions<
+  K extends SignalFromObserverType,
+  R = never
+> = Pick<
+  SignalFromEventOptions<Event, R>,
+  | 'initialValue'
+  | 'activate'
+  | 'injector'
+  | 'throttle'
+  | 'debounce'
+  | 'schedule'
+  | 'runOutsideAngular'
+  | 'activateAfterNextRender'
+> & {
+  target?:
+    | Element
+    | Signal<ElementRef<Element> | undefined>
+    | Signal<readonly ElementRef<Element>[]>;
+  observerOptions?: SignalFromObserverInitMap[K];
+  tap?: (entry: SignalFromObserverEntryMap[K], element: Element) => void;
+  resultSelector?: (
+    entry: SignalFromObserverEntryMap[K],
+    element: Element
+  ) => R;
+};
+
+type ObserverEventDetail<K extends SignalFromObserverType> = {
+  entry: SignalFromObserverEntryMap[K];
+  element: Element;
+};
+
+type ObserverEvent<K extends SignalFromObserverType> = CustomEvent<
+  ObserverEventDetail<K>
+>;
+
+type ObserverTarget<K extends SignalFromObserverType> = ElementRef<
+  HasEventTargetAddRemove<ObserverEvent<K>>
+>;
+
+const OBSERVER_EVENT_NAME = 'observerentry';
+
+const DEFAULT_MUTATION_OBSERVER_INIT: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+};
+
+/**
+ * Creates an `EventSignal` based on the callbacks of a ResizeObserver, an IntersectionObserver or a MutationObserver,
+ * with the same activation controls and Signal-based targets as `signalFromEvent`.
+ *
+ * @template K The type of the observer.
+ * @template R The transformed result type of the entry, defaulting to the entry. If provided options.resultSelector has to defined.
+ *
+ * @param {SignalFromObserverType} type The type of the observer: 'resize', 'intersection' or 'mutation'.
+ *
+ * @param {SignalFromObserverOptions<K, R>} [options]
+ * Configuration options for the `signalFromObserver`:
+ *
+ * - **target**: The observed element, a `Signal` of an `ElementRef` (e.g. the result of `viewChild()`) or a `Signal` of an `ElementRef` list
+ *   (e.g. the result of `viewChildren()`). Defaults to the ElementRef of the component. When the target changes, the elements
+ *   missing from the new target are not observed anymore and the new ones are observed.
+ * - **observerOptions**: The options of the observer, passed to the constructor of the IntersectionObserver and to the observe method of the
+ *   ResizeObserver and the MutationObserver. The MutationObserver observes the child list of the subtree by default.
+ * - **tap**: A function invoked on every entry with the observed element, allowing side effects without modifying the result.
+ * - **resultSelector**: A transformation function that maps the entry and the observed element to the desired output type `R`.
+ * - **initialValue**, **activate**, **injector**, **throttle**, **debounce**, **schedule**, **runOutsideAngular** and **activateAfterNextRender**:
+ *   The same as the options of `signalFromEvent`.
+ *
+ * Every element is observed by its own observer, which is created when the EventSignal is activated and disconnected when it is deactivated,
+ * so the resize and intersection observers emit the current state of the element after every activation. On the server the EventSignal is inert.
+ *
+ * @returns {EventSignal<R | undefined>}
+ * Returns an `EventSignal` with the methods and the state signals of `signalFromEvent`, its currentTarget is the observed element
+ * (or the list of the observed elements).
+ *
+ * ### Example:
+ * Getting whether a child element is visible in the viewport:
+ *
+ * ```typescript
+ * const visible = signalFromObserver('intersection', {
+ *   target: viewChild(...),
+ *   observerOptions: { threshold: 0.5 },
+ *   resultSelector: (entry) => entry.isIntersecting,
+ *   initialValue: false,
+ *   activate: true,
+ * });
+ * ```
+ */
+export function signalFromObserver<K extends SignalFromObserverType>(
+  type: K,
+  options?: SignalFromObserverOptions<K>
+): EventSignal<SignalFromObserverEntryMap[K] | undefined>;
+export function signalFromObserver<K extends SignalFromObserverType, R>(
+  type: K,
+  options: SignalFromObserverOptions<K, R> & {
+    resultSelector: (
+      entry: SignalFromObserverEntryMap[K],
+      element: Element
+    ) => R;
+  } & { initialValue?: never }
+): EventSignal<R | undefined>;
+export function signalFromObserver<K extends SignalFromObserverType, R>(
+  type: K,
+  options: SignalFromObserverOptions<K, R> & {
+    resultSelector: (
+      entry: SignalFromObserverEntryMap[K],
+      element: Element
+    ) => R;
+  } & { initialValue: R }
+): EventSignal<R>;
+
+export function signalFromObserver<
+  K extends SignalFromObserverType,
+  R = SignalFromObserverEntryMap[K]
+>(
+  type: K,
+  options?: SignalFromObserverOptions<K, R>
+): EventSignal<R | undefined> {
+  const injector = options?.injector ?? inject(Injector);
+
+  // the observer targets are kept per element, so an element kept in the target list is not observed again
+  const observerTargets = new WeakMap<Element, ObserverTarget<K>>();
+  const observedElements = new WeakMap<object, Element>();
+  const toObserverTarget = (element: Element): ObserverTarget<K> => {
+    let observerTarget = observerTargets.get(element);
+    if (observerTarget === undefined) {
+      observerTarget = {
+        nativeElement: createObserverTarget(
+          type,
+          element,
+          options?.observerOptions
+        ),
+      };
+      observerTargets.set(element, observerTarget);
+      observedElements.set(observerTarget.nativeElement, element);
+    }
+    return observerTarget;
+  };
+
+  // the target is resolved lazily, so it is not resolved on the server where the EventSignal is inert
+  const optionsTarget = options?.target;
+  const target =
+    optionsTarget === undefined
+      ? computed(() => toObserverTarget(injector.get(ElementRef).nativeElement))
+      : !isSignal(optionsTarget)
+      ? computed(() => toObserverTarget(optionsTarget))
+      : computed(() => {
+          const targetValue = optionsTarget();
+          if (Array.isArray(targetValue)) {
+            return targetValue.map((elementRef) =>
+              toObserverTarget(elementRef.nativeElement)
+            );
+          }
+          return targetValue !== undefined
+            ? toObserverTarget(
+                (targetValue as ElementRef<Element>).nativeElement
+              )
+            : undefined;
+        });
+
+  const resultSelector =
+    options?.resultSelector ??
+    ((entry: SignalFromObserverEntryMap[K]) => {
+      return entry as unknown as R; // if resultSelector is not defined, R has to be the entry
+    });
+
+  const eventSignal = signalFromEvent<ObserverEvent<K>, R>(
+    OBSERVER_EVENT_NAME,
+    {
+      target: target as Signal<ObserverTarget<K> | undefined>,
+      tap: (event) => options?.tap?.(event.detail.entry, event.detail.element),
+      resultSelector: (event) =>
+        resultSelector(event.detail.entry, event.detail.element),
+      initialValue: options?.initialValue as R,
+      activate: options?.activate,
+      injector,
+      throttle: options?.throttle,
+      debounce: options?.debounce,
+      schedule: options?.schedule,
+      runOutsideAngular: options?.runOutsideAngular,
+      activateAfterNextRender: options?.activateAfterNextRender,
+    }
+  );
+
+  // the listeners are added to the observer targets, the observed elements are exposed instead of them
+  const toObservedElement = (observerTarget: EventTarget) =>
+    observedElements.get(observerTarget) ?? observerTarget;
+  const observerTarget = eventSignal.currentTarget;
+  const currentTarget = computed(() => {
+    const currentTargetValue = observerTarget();
+    if (Array.isArray(currentTargetValue)) {
+      return currentTargetValue.map(toObservedElement);
+    }
+    return currentTargetValue !== undefined
+      ? toObservedElement(currentTargetValue as EventTarget)
+      : undefined;
+  });
+
+  return Object.assign(eventSignal, { currentTarget }) as EventSignal<
+    R | undefined
+  >;
+}
+
+function createObserverTarget<K extends SignalFromObserverType>(
+  type: K,
+  element: Element,
+  observerOptions?: SignalFromObserverInitMap[K]
+): HasEventTargetAddRemove<ObserverEvent<K>> {
+  const listeners = new Set<(event: ObserverEvent<K>) => void>();
+  let disconnect: (() => void) | undefined = undefined;
+  // the entries are passed to the listeners directly instead of dispatching DOM events, signalFromEvent only reads the currentTarget of the event
+  const emit = (entry: SignalFromObserverEntryMap[K]) => {
+    const event = {
+      type: OBSERVER_EVENT_NAME,
+      currentTarget: element,
+      detail: { entry, element },
+    } as unknown as ObserverEvent<K>;
+    listeners.forEach((listener) => listener(event));
+  };
+
+  // the observer is created by the first listener and disconnected after the last one is removed
+  return {
+    addEventListener: (_, listener) => {
+      if (typeof listener !== 'function' || listeners.has(listener)) {
+        return;
+      }
+      listeners.add(listener);
+      if (listeners.size === 1) {
+        disconnect = observe(type, element, observerOptions, emit);
+      }
+    },
+    removeEventListener: (_, listener) => {
+      if (typeof listener !== 'function' || !listeners.delete(listener)) {
+        return;
+      }
+      if (listeners.size === 0) {
+        disconnect?.();
+        disconnect = undefined;
+      }
+    },
+  };
+}
+
+function observe<K extends SignalFromObserverType>(
+  type: K,
+  element: Element,
+  observerOptions: SignalFromObserverInitMap[K] | undefined,
+  emit: (entry: SignalFromObserverEntryMap[K]) => void
+): () => void {
+  const emitEntry = emit as (
+    entry: SignalFromObserverEntryMap[SignalFromObserverType]
+  ) => void;
+  switch (type) {
+    case 'resize': {
+      const observer = new ResizeObserver((entries) =>
+        emitEntry(entries[entries.length - 1])
+      );
+      observer.observe(element, observerOptions as ResizeObserverOptions);
+      return () => observer.disconnect();
+    }
+    case 'intersection': {
+      const observer = new IntersectionObserver(
+        (entries) => emitEntry(entries[entries.length - 1]),
+        observerOptions as IntersectionObserverInit
+      );
+      observer.observe(element);
+      return () => observer.disconnect();
+    }
+    default: {
+      const observer = new MutationObserver((records) => emitEntry(records));
+      observer.observe(
+        element,
+        (observerOptions as MutationObserverInit | undefined) ??
+          DEFAULT_MUTATION_OBSERVER_INIT
+      );
+      return () => observer.disconnect();
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import { ErrorHandler, Injector } from '@angular/core';
+import {
+  fakeAsync,
+  flushMicrotasks,
+  TestBed,
+  tick,
+} from '@angular/core/testing';
+import { BehaviorSubject } from 'rxjs';
+import {
+  indexedDbStorage,
+  memoryStorage,
+  persistedBindable,
+  PersistedStorage,
+} from './persisted-bindable';
+
+const KEY = 'persistedKey';
+
+describe('persisted-bindable.ts', () => {
+  describe('persistedBindable', () => {
+    let storage: PersistedStorage;
+
+    beforeEach(() => {
+      storage = memoryStorage();
+    });
+
+    it('should use the initial value if there is no persisted value', () => {
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+
+      expect(persistedSignal()).toBe('initialValue');
+    });
+
+    it('should hydrate the signal from the storage on creation', () => {
+      storage.setItem(KEY, persist('persistedValue'));
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+
+      expect(persistedSignal()).toBe('persistedValue');
+    });
+
+    it('should write the changed value back to the storage', fakeAsync(() => {
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+
+      persistedSignal.set('newValue');
+      tick();
+
+      expect(storage.getItem(KEY)).toBe(persist('newValue'));
+    }));
+
+    it('should not write the initial value to the storage', fakeAsync(() => {
+      TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+      tick();
+
+      expect(storage.getItem(KEY)).toBeNull();
+    }));
+
+    it('should not require injection context if injector is provided', () => {
+      const injector = TestBed.inject(Injector);
+
+      const persistedSignal = persistedBindable(KEY, 'initialValue', {
+        storage,
+        injector,
+      });
+
+      expect(persistedSignal()).toBe('initialValue');
+    });
+
+    it('should use the provided serialize and deserialize functions', fakeAsync(() => {
+      storage.setItem(KEY, JSON.stringify({ version: 0, value: '1,2' }));
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable<number[]>(KEY, [], {
+          storage,
+          serialize: (value) => value.join(','),
+          deserialize: (serialized) => serialized.split(',').map(Number),
+        })
+      );
+
+      expect(persistedSignal()).toEqual([1, 2]);
+
+      persistedSignal.set([3]);
+      tick();
+
+      expect(storage.getItem(KEY)).toBe(
+        JSON.stringify({ version: 0, value: '3' })
+      );
+    }));
+
+    it('should ignore a value persisted with another version if migrate is not provided', () => {
+      storage.setItem(KEY, persist('persistedValue', 1));
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage, version: 2 })
+      );
+
+      expect(persistedSignal()).toBe('initialValue');
+    });
+
+    it('should migrate a value persisted with another version and persist it with the current version', fakeAsync(() => {
+      storage.setItem(KEY, persist('persistedValue', 1));
+      const migrate = jasmine
+        .createSpy('migrate')
+        .and.callFake((value: unknown) => `${value} migrated`);
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', {
+          storage,
+          version: 2,
+          migrate,
+        })
+      );
+      tick();
+
+      expect(migrate).toHaveBeenCalledWith('persistedValue', 1);
+      expect(persistedSignal()).toBe('persistedValue migrated');
+      expect(storage.getItem(KEY)).toBe(persist('persistedValue migrated', 2));
+    }));
+
+    it('should ignore an invalid persisted value', () => {
+      storage.setItem(KEY, 'invalid');
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+
+      expect(persistedSignal()).toBe('initialValue');
+    });
+
+    it('should hydrate the signal from an asynchronous storage without overwriting the persisted value before', fakeAsync(() => {
+      const asyncStorage: PersistedStorage = {
+        getItem: (key) => Promise.resolve(storage.getItem(key)),
+        setItem: (key, value) => Promise.resolve(storage.setItem(key, value)),
+      };
+      storage.setItem(KEY, persist('persistedValue'));
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage: asyncStorage })
+      );
+
+      expect(persistedSignal()).toBe('initialValue');
+
+      flushMicrotasks();
+      tick();
+
+      expect(persistedSignal()).toBe('persistedValue');
+      expect(storage.getItem(KEY)).toBe(persist('persistedValue'));
+    }));
+
+    it('should report the failed read of an asynchronous storage and still persist the changes', fakeAsync(() => {
+      const readError = new Error('blocked');
+      const onStorageError = jasmine.createSpy('onStorageError');
+      const failingStorage: PersistedStorage = {
+        getItem: () => Promise.reject(readError),
+        setItem: (key, value) => storage.setItem(key, value),
+      };
+
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', {
+          storage: failingStorage,
+          onStorageError,
+        })
+      );
+      flushMicrotasks();
+
+      expect(onStorageError).toHaveBeenCalledOnceWith(readError);
+      expect(persistedSignal()).toBe('initialValue');
+
+      persistedSignal.set('newValue');
+      tick();
+
+      expect(storage.getItem(KEY)).toBe(persist('newValue'));
+    }));
+
+    it('should report the failed writes to the ErrorHandler by default', fakeAsync(() => {
+      const writeError = new Error('quota exceeded');
+      const handleError = spyOn(TestBed.inject(ErrorHandler), 'handleError');
+      const failingStorage: PersistedStorage = {
+        getItem: () => null,
+        setItem: () => Promise.reject(writeError),
+      };
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage: failingStorage })
+      );
+
+      persistedSignal.set('newValue');
+      tick();
+
+      expect(handleError).toHaveBeenCalledOnceWith(writeError);
+    }));
+
+    it('should report the writes throwing synchronously', fakeAsync(() => {
+      const writeError = new Error('quota exceeded');
+      const onStorageError = jasmine.createSpy('onStorageError');
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', {
+          storage: {
+            getItem: () => null,
+            setItem: () => {
+              throw writeError;
+            },
+          },
+          onStorageError,
+        })
+      );
+
+      persistedSignal.set('newValue');
+      tick();
+
+      expect(onStorageError).toHaveBeenCalledOnceWith(writeError);
+    }));
+
+    it('should persist the values of the bound source', fakeAsync(() => {
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage })
+      );
+
+      persistedSignal.bindTo(new BehaviorSubject('sourceValue'));
+      tick();
+
+      expect(storage.getItem(KEY)).toBe(persist('sourceValue'));
+    }));
+
+    it('should update the signal from the storage event of another tab', fakeAsync(() => {
+      localStorage.removeItem(KEY);
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage: localStorage })
+      );
+      tick();
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: KEY,
+          newValue: persist('anotherTabValue'),
+          storageArea: localStorage,
+        })
+      );
+      tick();
+
+      expect(persistedSignal()).toBe('anotherTabValue');
+
+      localStorage.removeItem(KEY);
+    }));
+
+    it('should not update the signal from the storage event of another key', fakeAsync(() => {
+      localStorage.removeItem(KEY);
+      const persistedSignal = TestBed.runInInjectionContext(() =>
+        persistedBindable(KEY, 'initialValue', { storage: localStorage })
+      );
+      tick();
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'anotherKey',
+          newValue: persist('anotherTabValue'),
+          storageArea: localStorage,
+        })
+      );
+      tick();
+
+      expect(persistedSignal()).toBe('initialValue');
+
+      localStorage.removeItem(KEY);
+    }));
+  });
+});
+
+describe('indexedDbStorage', () => {
+  const DATABASE_NAME = 'ngx-signals-plus-spec';
+
+  afterEach(
+    () =>
+      new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(DATABASE_NAME);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      })
+  );
+
+  it('should read the values written by another storage of the same database', async () => {
+    await indexedDbStorage(DATABASE_NAME).setItem(KEY, 'persistedValue');
+
+    const storage = indexedDbStorage(DATABASE_NAME);
+
+    expect(await storage.getItem(KEY)).toBe('persistedValue');
+    expect(await storage.getItem('anotherKey')).toBeNull();
+  });
+
+  it('should overwrite the value of the key', async () => {
+    const storage = indexedDbStorage(DATABASE_NAME);
+
+    await storage.setItem(KEY, 'firstValue');
+    await storage.setItem(KEY, 'secondValue');
+
+    expect(await storage.getItem(KEY)).toBe('secondValue');
+  });
+});
+
+function persist(value: unknown, version = 0): string {
+  return JSON.stringify({ version, value: JSON.stringify(value) });
+}
@@ -0,0 +1,273 @@
+import {
+  effect,
+  ErrorHandler,
+  inject,
+  Injector,
+  signal,
+  untracked,
+  VERSION,
+} from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { bindable, BindableOptions, BindableSignal } from './bindable-signal';
+import { signalFromEvent } from './event-signal';
+
+/**
+ * The storage used by persistedBindable. The Web Storage API (localStorage, sessionStorage) implements it,
+ * but it can also be asynchronous like the indexedDbStorage.
+ */
+export type PersistedStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+};
+
+export type PersistedBindableOptions<T> = Omit<
+  BindableOptions<T>,
+  'destroyRef' | 'manualCleanup'
+> & {
+  storage?: PersistedStorage;
+  serialize?: (value: T) => string;
+  deserialize?: (serialized: string) => T;
+  version?: number;
+  migrate?: (persistedValue: unknown, persistedVersion: number) => T;
+  onStorageError?: (error: unknown) => void;
+};
+
+type PersistedEnvelope = {
+  version: number;
+  value: string;
+};
+
+/**
+ * Factory method to create a BindableSignal that is persisted in a storage.
+ * The signal is hydrated from the storage on creation and every change of its value is written back.
+ * When the storage is the localStorage or the sessionStorage, the signal is also updated from the storage events of other tabs,
+ * unless it is bound. The signal can still be bound to a source with bindTo, its values are persisted as well.
+ *
+ * The value is stored together with the version, if the persisted version differs, the migrate function is called.
+ * Without a migrate function the persisted value of another version is ignored. An invalid persisted value is ignored too.
+ *
+ * @param key The key of the value in the storage.
+ * @param initialValue The initial value assigned to the signal if there is no persisted value.
+ * @param options The options of bindable() except destroyRef and manualCleanup, since the write back effect needs an Injector.
+ * @param options.storage The storage to persist the value in. Defaults to the localStorage, or an in-memory storage if it is not available (e.g. on the server).
+ * @param options.serialize Converts the value to a string. Defaults to JSON.stringify.
+ * @param options.deserialize Converts the persisted string to the value. Defaults to JSON.parse.
+ * @param options.version The version of the persisted value. Defaults to 0.
+ * @param options.migrate Converts a value persisted with another version to the current one.
+ * @param options.onStorageError Called when the storage fails to read or write the value, e.g. the IndexedDB can not be opened or the quota is exceeded.
+ *                               Defaults to the ErrorHandler of the application. If the read fails, the signal keeps its value and its changes are still written.
+ * @returns BindableSignal<T> A bindable signal persisted in the storage.
+ */
+export function persistedBindable<T>(
+  key: string,
+  initialValue: T,
+  options?: PersistedBindableOptions<T>
+): BindableSignal<T> {
+  const {
+    storage: optionsStorage,
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    version = 0,
+    migrate,
+    onStorageError,
+    ...bindableOptions
+  } = options ?? {};
+  const injector = options?.injector ?? inject(Injector);
+  const handleStorageError =
+    onStorageError ??
+    ((error: unknown) => injector.get(ErrorHandler).handleError(error));
+  const window = injector.get(DOCUMENT).defaultView;
+  const storage = optionsStorage ?? getLocalStorage(window) ?? memoryStorage();
+
+  const bindableSignal = bindable(initialValue, {
+    ...bindableOptions,
+    injector,
+  });
+
+  const toPersisted = (value: T) =>
+    JSON.stringify({
+      version,
+      value: serialize(value),
+    } satisfies PersistedEnvelope);
+
+  // the initial value is not written to the storage, only the changes
+  let lastPersisted: string | null = toPersisted(initialValue);
+  const hydrated = signal(false);
+  const hydrate = (persisted: string | null) => {
+    if (persisted === null || persisted === lastPersisted) {
+      return;
+    }
+    try {
+      const envelope = JSON.parse(persisted) as PersistedEnvelope;
+      const persistedValue = deserialize(envelope.value);
+      if (envelope.version === version) {
+        lastPersisted = persisted;
+        bindableSignal.set(persistedValue);
+      } else if (migrate !== undefined) {
+        bindableSignal.set(migrate(persistedValue, envelope.version));
+      }
+    } catch {
+      // an invalid persisted value is ignored, the next write will overwrite it
+    }
+  };
+
+  // a failed read does not prevent persisting the changes of the signal
+  let persisted: ReturnType<PersistedStorage['getItem']> = null;
+  try {
+    persisted = storage.getItem(key);
+  } catch (error) {
+    handleStorageError(error);
+  }
+  if (persisted instanceof Promise) {
+    persisted
+      .then((value) => {
+        if (!bindableSignal.isBound()) {
+          hydrate(value);
+        }
+      }, handleStorageError)
+      .finally(() => hydrated.set(true));
+  } else {
+    hydrate(persisted);
+    hydrated.set(true);
+  }
+
+  const write = (serialized: string) => {
+    try {
+      const written = storage.setItem(key, serialized);
+      if (written instanceof Promise) {
+        written.catch(handleStorageError);
+      }
+    } catch (error) {
+      handleStorageError(error);
+    }
+  };
+
+  effect(
+    () => {
+      const value = bindableSignal();
+      if (!hydrated()) {
+        return;
+      }
+      untracked(() => {
+        const serialized = toPersisted(value);
+        if (serialized !== lastPersisted) {
+          lastPersisted = serialized;
+          write(serialized);
+        }
+      });
+    },
+    { injector }
+  );
+
+  if (
+    window !== null &&
+    typeof window.Storage !== 'undefined' &&
+    storage instanceof window.Storage
+  ) {
+    const storageEvent = signalFromEvent<StorageEvent>('storage', {
+      target: window,
+      injector,
+      activate: true,
+    });
+    effect(
+      () => {
+        const event = storageEvent();
+        if (
+          event?.key === key &&
+          event.storageArea === storage &&
+          !untracked(bindableSignal.isBound)
+        ) {
+          untracked(() => hydrate(event.newValue));
+        }
+      },
+      parseInt(VERSION.major) < 19
+        ? {
+            injector,
+            allowSignalWrites: true,
+          }
+        : { injector }
+    );
+  }
+
+  return bindableSignal;
+}
+
+/**
+ * Creates a PersistedStorage that keeps the values in memory. Useful for testing and as a fallback on the server.
+ *
+ * @returns PersistedStorage
+ */
+export function memoryStorage(): PersistedStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+/**
+ * Creates an asynchronous PersistedStorage that keeps the values in an IndexedDB object store.
+ * The database is opened lazily on the first read or write, and closed when another connection wants to upgrade or delete it.
+ *
+ * @param databaseName The name of the IndexedDB database.
+ * @param storeName The name of the object store in the database.
+ * @returns PersistedStorage
+ */
+export function indexedDbStorage(
+  databaseName = 'ngx-signals-plus',
+  storeName = 'persisted-bindable'
+): PersistedStorage {
+  let database: Promise<IDBDatabase> | undefined = undefined;
+  const openDatabase = () =>
+    (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(storeName);
+      request.onsuccess = () => {
+        const db = request.result;
+        db.onversionchange = () => {
+          db.close();
+          database = undefined;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  const runRequest = <R>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    openDatabase().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const request = createRequest(
+            db.transaction(storeName, mode).objectStore(storeName)
+          );
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+  return {
+    getItem: (key) =>
+      runRequest<string | undefined>('readonly', (store) =>
+        store.get(key)
+      ).then((value) => value ?? null),
+    setItem: (key, value) =>
+      runRequest('readwrite', (store) => store.put(value, key)).then(
+        () => undefined
+      ),
+  };
+}
+
+function getLocalStorage(
+  window: (Window & typeof globalThis) | null
+): Storage | undefined {
+  try {
+    return window?.localStorage;
+  } catch {
+    // accessing the localStorage throws if it is disabled by the browser
+    return undefined;
+  }
+}
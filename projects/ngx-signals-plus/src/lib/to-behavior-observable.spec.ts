@@ -1,4 +1,4 @@
-import { DestroyRef, Injector, signal } from '@angular/core';
+import { DestroyRef, Injector, PLATFORM_ID, signal } from '@angular/core';
 import { fakeAsync, TestBed, tick } from '@angular/core/testing';
 import { toBehaviorObservable } from './to-behavior-observable';
 
@@ -200,6 +200,28 @@ describe('toBehaviorObservable', () => {
     expect(emittedValue).toBe(NEW_VALUE);
     expect(counter).toBe(2);
   }));
+
+  it('should emit the current value and complete on the server', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+    });
+    const signalSpy = signal(INITIAL_VALUE);
+    const observable = toBehaviorObservable(signalSpy, {
+      injector: TestBed.inject(Injector),
+    });
+    const emittedValues: string[] = [];
+    let completed = false;
+
+    signalSpy.set(NEW_VALUE);
+    observable.subscribe({
+      next: (value) => emittedValues.push(value),
+      complete: () => (completed = true),
+    });
+
+    expect(emittedValues).toEqual([NEW_VALUE]);
+    expect(completed).toBeTrue();
+  });
 });
 
 function collectMockDestroyRefCallbacks(
@@ -4,12 +4,14 @@ import {
   EffectRef,
   inject,
   Injector,
+  PLATFORM_ID,
   Signal,
   untracked,
   VERSION,
 } from '@angular/core';
+import { isPlatformServer } from '@angular/common';
 import { ToObservableOptions } from '@angular/core/rxjs-interop';
-import { Observable, shareReplay, Subject, tap } from 'rxjs';
+import { defer, Observable, of, shareReplay, Subject, tap } from 'rxjs';
 import { lazyStartWith } from './custom-observables';
 
 /**
@@ -19,6 +21,9 @@ import { lazyStartWith } from './custom-observables';
  *
  * Use the original toObservable method from '@angular/core/rxjs-interop' if asynchronous initial value readout is sufficient.
  *
+ * On the server the observable emits the current value of the signal synchronously upon subscription and completes,
+ * no effect is created since the server renders the application only once. After hydration on the client it behaves as described above.
+ *
  * @param source The source signal to convert to an observable.
  * @param options toBehaviorObservable must be called in an injection context unless an injector is provided via options.
  * @returns An observable that emits the signal's current value synchronously upon subscription, and subsequent values asynchronously.
@@ -27,8 +32,11 @@ export const toBehaviorObservable = <T>(
   source: Signal<T>,
   options?: ToObservableOptions
 ): Observable<T> => {
-  const subject = new Subject<T>();
   const injector = options?.injector ?? inject(Injector);
+  if (isPlatformServer(injector.get(PLATFORM_ID))) {
+    return defer(() => of(untracked(source)));
+  }
+  const subject = new Subject<T>();
   injector.get(DestroyRef).onDestroy(() => {
     subject.complete();
   });
@@ -4,5 +4,10 @@
 
 export * from './lib/bindable-signal';
 export * from './lib/event-signal';
+export * from './lib/activators';
 export * from './lib/custom-observables';
 export * from './lib/to-behavior-observable';
+export * from './lib/persisted-bindable';
+export * from './lib/bindable-map';
+export * from './lib/observer-signal';
+export * from './lib/gesture-signals';